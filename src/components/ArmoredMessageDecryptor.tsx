@@ -0,0 +1,112 @@
+/**
+ * Armored Message Decryptor
+ * Paste an armored message; its Key-Fingerprint header picks the key from the keyring
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { AlertTriangle, CheckCircle, ScrollText, Unlock } from 'lucide-react';
+import { ArmorError, decryptArmoredMessage } from '@/lib/message-armor';
+import type { KeyringEntry } from '@/lib/keyring';
+
+interface ArmoredMessageDecryptorProps {
+  keyring: KeyringEntry[];
+  // The armored form of the Step 3 ciphertext, offered as a starting point
+  lastArmor: string | null;
+}
+
+export function ArmoredMessageDecryptor({ keyring, lastArmor }: ArmoredMessageDecryptorProps) {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ decrypted: string; steps: string[]; entry: KeyringEntry } | null>(null);
+
+  const decrypt = async () => {
+    try {
+      setResult(await decryptArmoredMessage(input, keyring));
+      setError(null);
+    } catch (err) {
+      if (!(err instanceof ArmorError)) throw err;
+      setResult(null);
+      setError(err.message);
+    }
+  };
+
+  return (
+    <Card className="glass-card hover-float transform-3d animate-morph-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScrollText className="w-5 h-5 text-private-key" />
+          Decrypt an Armored Message
+        </CardTitle>
+        <CardDescription>
+          The headers record the recipient's key fingerprint, padding, encoding and block size, so nothing needs to be chosen
+          by hand.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="armored-input">Armored Message</Label>
+          <Textarea
+            id="armored-input"
+            value={input}
+            onChange={(event) => setInput(event.target.value)}
+            placeholder={'-----BEGIN RSA DEMO MESSAGE-----\nKey-Fingerprint: …\n\n…\n-----END RSA DEMO MESSAGE-----'}
+            rows={8}
+            className="math-font text-xs"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={decrypt} disabled={!input.trim()} className="flex items-center gap-2">
+            <Unlock className="w-4 h-4" />
+            Decrypt with Keyring
+          </Button>
+          {lastArmor && (
+            <Button variant="outline" onClick={() => setInput(lastArmor)}>
+              Use Step 3 Message
+            </Button>
+          )}
+        </div>
+
+        {error && (
+          <Alert className="border-destructive/40 bg-destructive/10">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+            <AlertDescription>
+              <strong>Cannot decrypt this message:</strong> {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <>
+            <Alert className="border-success/30 bg-success/5">
+              <CheckCircle className="w-5 h-5 text-success" />
+              <AlertDescription className="text-base break-all">
+                Decrypted message: <strong className="text-success">"{result.decrypted}"</strong>{' '}
+                <Badge variant="outline">{result.entry.label}</Badge>
+              </AlertDescription>
+            </Alert>
+            <Accordion type="single" collapsible>
+              <AccordionItem value="armor-steps" className="border border-private-key/20 rounded-xl">
+                <AccordionTrigger className="px-6 py-4 hover:bg-private-key/5 transition-ultra rounded-xl">
+                  <span className="font-semibold">Show Decryption Steps</span>
+                </AccordionTrigger>
+                <AccordionContent className="px-6 pb-6 space-y-2">
+                  {result.steps.map((step, index) => (
+                    <p key={index} className="math-font text-sm break-all">{step}</p>
+                  ))}
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * ASN.1 Tree View
+ * The nesting of a parsed DER structure, one line per field
+ */
+
+import { tagName, type DerField } from '@/lib/asn1';
+
+interface Asn1TreeViewProps {
+  fields: DerField[];
+}
+
+// Longer values are shortened so the tree stays readable; the hex dump has the full bytes
+function shorten(value: string): string {
+  return value.length > 40 ? `${value.slice(0, 18)}…${value.slice(-18)} (${value.length} digits)` : value;
+}
+
+export function Asn1TreeView({ fields }: Asn1TreeViewProps) {
+  return (
+    <div className="max-h-96 overflow-auto rounded-lg border border-math-formula/20 p-4 math-font text-sm space-y-1">
+      {fields.map(field => (
+        <div key={field.offset} style={{ paddingLeft: `${field.depth * 1.25}rem` }} className="flex flex-wrap gap-x-2">
+          <span className="text-muted-foreground">{field.depth > 0 ? '└─' : '■'}</span>
+          <span className="text-math-formula">{tagName(field.tag)}</span>
+          <span className="font-semibold">{field.label}</span>
+          <span className="text-muted-foreground">
+            @{field.offset}, {field.length} bytes
+          </span>
+          {field.value && <span className="break-all">= {/^\d+$/.test(field.value) ? shorten(field.value) : field.value}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
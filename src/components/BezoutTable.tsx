@@ -0,0 +1,51 @@
+/**
+ * Extended Euclidean Algorithm Table
+ * Renders every (q, r, s, t) row the way students write it out by hand
+ */
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { ExtendedGcdTable } from '@/lib/rsa-utils';
+
+interface BezoutTableProps {
+  table: ExtendedGcdTable;
+  modulusLabel: string;
+}
+
+export function BezoutTable({ table, modulusLabel }: BezoutTableProps) {
+  const { a, b, gcd, y, rows } = table;
+  const gcdRow = rows.length - 2;
+  const inverse = ((y % a) + a) % a;
+
+  return (
+    <div className="mt-3 space-y-2 w-full">
+      <div className="max-h-96 overflow-auto rounded-lg border border-math-formula/20">
+        <Table className="math-font">
+          <TableHeader>
+            <TableRow>
+              <TableHead>i</TableHead>
+              <TableHead>q</TableHead>
+              <TableHead>r</TableHead>
+              <TableHead>s</TableHead>
+              <TableHead>t</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row, index) => (
+              <TableRow key={index} className={index === gcdRow ? 'bg-math-formula/10 font-bold' : ''}>
+                <TableCell>{index}</TableCell>
+                <TableCell>{row.q === null ? '–' : row.q.toString()}</TableCell>
+                <TableCell className="break-all">{row.r.toString()}</TableCell>
+                <TableCell className="break-all">{row.s.toString()}</TableCell>
+                <TableCell className="break-all">{row.t.toString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-sm text-muted-foreground break-all">
+        Each row satisfies r = s × {a.toString()} + t × {b.toString()}. The highlighted row has r = gcd = {gcd.toString()},
+        so t = {y.toString()} and d = t mod {modulusLabel} = {inverse.toString()}.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * Block Mapping Visual
+ * Shows which symbols were packed into each plaintext block and the ciphertext it became
+ */
+
+import { ArrowRight } from 'lucide-react';
+import type { MessageBlock, MessageEncoding } from '@/lib/message-encoding';
+
+interface BlockMappingProps {
+  blocks: MessageBlock[];
+  ciphertext: bigint[];
+  encoding: MessageEncoding;
+  // Symbols in the message; any after this are filler
+  symbolCount: number;
+}
+
+// Printable form of one symbol, or a note when it has no single-character meaning
+function symbolGlyph(symbol: bigint, encoding: MessageEncoding): string {
+  if (encoding.id === 'utf-8') return symbol < 128n ? encoding.decode([symbol]) : '·';
+  return encoding.decode([symbol]);
+}
+
+export function BlockMapping({ blocks, ciphertext, encoding, symbolCount }: BlockMappingProps) {
+  const isFiller = (blockIndex: number, symbolIndex: number) => blockIndex * blocks[0].symbols.length + symbolIndex >= symbolCount;
+
+  return (
+    <div className="space-y-3">
+      {blocks.map((block, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-3 p-3 rounded-lg border border-primary/20 bg-primary/5 math-font">
+          <span className="text-sm font-semibold text-muted-foreground">Block {index + 1}</span>
+          <div className="flex gap-1">
+            {block.symbols.map((symbol, i) => (
+              <span
+                key={i}
+                className={`inline-flex flex-col items-center px-2 py-1 rounded-md bg-background border text-xs ${
+                  isFiller(index, i) ? 'border-dashed opacity-60' : ''
+                }`}
+                title={isFiller(index, i) ? `Filler ${symbol}` : `Symbol ${symbol}`}
+              >
+                <span className="font-bold text-base">{symbolGlyph(symbol, encoding)}</span>
+                <span className="text-muted-foreground">{encoding.showSymbol(symbol)}</span>
+              </span>
+            ))}
+          </div>
+          <ArrowRight className="w-4 h-4 text-muted-foreground" />
+          <span className="font-semibold break-all">m = {block.value.toString()}</span>
+          <ArrowRight className="w-4 h-4 text-muted-foreground" />
+          <span className="font-bold text-primary break-all">c = {ciphertext[index]?.toString()}</span>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Dashed symbols are {encoding.showSymbol(encoding.padding)} filler completing the last block. Decryption drops them by
+        counting the message's {symbolCount} symbols, so a message that really ends in {encoding.showSymbol(encoding.padding)} keeps it.
+        {encoding.id === 'utf-8' && ' · marks a byte that is part of a multi-byte character.'}
+      </p>
+    </div>
+  );
+}
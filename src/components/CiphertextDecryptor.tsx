@@ -0,0 +1,334 @@
+/**
+ * Ciphertext Decryptor
+ * Decrypt ciphertext from a worksheet or a classmate, with the current key or one typed in
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { CheckCircle, FileInput, Unlock, XCircle } from 'lucide-react';
+import { MIN_KEY_BYTES, decryptCiphertext, parseCiphertext, type CiphertextEntry, type CiphertextFormat } from '@/lib/ciphertext-input';
+import { MESSAGE_ENCODINGS, blockSizeFits, type MessageEncodingId } from '@/lib/message-encoding';
+import { PaddingError, type PaddingMode } from '@/lib/rsa-padding';
+import { byteLength } from '@/lib/bytes';
+import type { BlockLayout } from '@/lib/rsa-utils';
+import { useToast } from '@/hooks/use-toast';
+
+interface CiphertextDecryptorProps {
+  // The key from Step 1, if any; d is null for a public key
+  activeKey: { n: bigint; d: bigint | null } | null;
+  // Ciphertext from Step 3 and the settings that produced it, offered as a starting point
+  lastEncryption?: {
+    ciphertext: bigint[];
+    padding: PaddingMode;
+    layout?: BlockLayout;
+    oaepLabel?: string;
+  };
+}
+
+interface DecryptedCiphertext {
+  decrypted: string;
+  steps: string[];
+}
+
+export function CiphertextDecryptor({ activeKey, lastEncryption }: CiphertextDecryptorProps) {
+  const [input, setInput] = useState('');
+  const [format, setFormat] = useState<CiphertextFormat>('decimal');
+  const [keyChoice, setKeyChoice] = useState<'current' | 'manual'>('current');
+  const [manualN, setManualN] = useState('');
+  const [manualD, setManualD] = useState('');
+  const [padding, setPadding] = useState<PaddingMode>('none');
+  const [oaepLabel, setOaepLabel] = useState('');
+  const [encodingId, setEncodingId] = useState<MessageEncodingId>('code-points');
+  const [blockSize, setBlockSize] = useState('1');
+  // Known only for ciphertext taken from Step 3; cleared once the input or packing is edited
+  const [symbolCount, setSymbolCount] = useState<number | undefined>(undefined);
+  const [entries, setEntries] = useState<CiphertextEntry[] | null>(null);
+  const [result, setResult] = useState<DecryptedCiphertext | null>(null);
+  const { toast } = useToast();
+
+  const canUseCurrent = activeKey !== null && activeKey.d !== null;
+  const source = keyChoice === 'current' && canUseCurrent ? 'current' : 'manual';
+
+  const fail = (title: string, description: string) => {
+    toast({ title, description, variant: "destructive" });
+  };
+
+  const privateKey = (): { n: bigint; d: bigint } | null => {
+    if (source === 'current') return { n: activeKey.n, d: activeKey.d };
+    if (!/^\d+$/.test(manualN.trim()) || !/^\d+$/.test(manualD.trim())) {
+      fail("Invalid Key", "Enter n and d as whole numbers.");
+      return null;
+    }
+    const n = BigInt(manualN.trim());
+    if (n < 2n) {
+      fail("Invalid Key", "n must be at least 2.");
+      return null;
+    }
+    return { n, d: BigInt(manualD.trim()) };
+  };
+
+  const decrypt = async () => {
+    const key = privateKey();
+    if (!key) return;
+
+    const parsed = parseCiphertext(input, key.n, format);
+    setEntries(parsed);
+    setResult(null);
+    if (parsed.length === 0) {
+      fail("No Ciphertext", "Enter at least one ciphertext value.");
+      return;
+    }
+    if (parsed.some(entry => entry.error)) return;
+
+    if (byteLength(key.n) < MIN_KEY_BYTES[padding]) {
+      fail(
+        "Key Too Small",
+        `${padding === 'oaep' ? 'OAEP' : 'PKCS#1 v1.5'} blocks need n of at least ${MIN_KEY_BYTES[padding]} bytes; this n is ${byteLength(key.n)}.`
+      );
+      return;
+    }
+    const encoding = MESSAGE_ENCODINGS[encodingId];
+    const size = Math.max(1, Math.floor(Number(blockSize)) || 1);
+    if (padding === 'none' && !blockSizeFits(key.n, encoding.radix, size)) {
+      fail("Block Too Large", `${size} ${encoding.label} symbols per block cannot fit below n = ${key.n}.`);
+      return;
+    }
+    try {
+      setResult(await decryptCiphertext(parsed, key, { padding, oaepLabel, layout: { encoding: encodingId, blockSize: size, symbolCount } }));
+    } catch (error) {
+      if (!(error instanceof PaddingError)) throw error;
+      fail("Decryption Failed", error.message);
+    }
+  };
+
+  return (
+    <Card className="glass-card hover-float transform-3d animate-morph-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileInput className="w-5 h-5 text-private-key" />
+          Decrypt Any Ciphertext
+        </CardTitle>
+        <CardDescription>
+          Paste ciphertext from an exercise as decimal numbers, hex or base64 and decrypt it with a private key.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="ciphertext-key">Private Key</Label>
+            <Select value={source} onValueChange={(value) => setKeyChoice(value as typeof keyChoice)}>
+              <SelectTrigger id="ciphertext-key">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current" disabled={!canUseCurrent}>
+                  Current key from Step 1{!canUseCurrent && ' (needs d)'}
+                </SelectItem>
+                <SelectItem value="manual">Enter n and d</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="ciphertext-format">Ciphertext Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as CiphertextFormat)}>
+              <SelectTrigger id="ciphertext-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="decimal">Decimal integers, comma-separated</SelectItem>
+                <SelectItem value="hex">Hex, one value per comma</SelectItem>
+                <SelectItem value="base64">Base64, one value per comma</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {source === 'manual' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="ciphertext-n">Modulus n</Label>
+              <Input
+                id="ciphertext-n"
+                inputMode="numeric"
+                value={manualN}
+                onChange={(e) => setManualN(e.target.value)}
+                placeholder="e.g., 3233"
+                className="math-font"
+              />
+            </div>
+            <div>
+              <Label htmlFor="ciphertext-d">Private Exponent d</Label>
+              <Input
+                id="ciphertext-d"
+                inputMode="numeric"
+                value={manualD}
+                onChange={(e) => setManualD(e.target.value)}
+                placeholder="e.g., 2753"
+                className="math-font"
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="ciphertext-padding">Padding Scheme</Label>
+            <Select value={padding} onValueChange={(value) => setPadding(value as PaddingMode)}>
+              <SelectTrigger id="ciphertext-padding">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None (textbook RSA)</SelectItem>
+                <SelectItem value="pkcs1-v1_5">PKCS#1 v1.5</SelectItem>
+                <SelectItem value="oaep">RSA-OAEP with SHA-256</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {padding === 'none' ? (
+            <>
+              <div>
+                <Label htmlFor="ciphertext-encoding">Message Encoding</Label>
+                <Select
+                  value={encodingId}
+                  onValueChange={(value) => {
+                    setEncodingId(value as MessageEncodingId);
+                    setSymbolCount(undefined);
+                  }}
+                >
+                  <SelectTrigger id="ciphertext-encoding">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(MESSAGE_ENCODINGS).map(encoding => (
+                      <SelectItem key={encoding.id} value={encoding.id}>{encoding.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="ciphertext-block-size">Symbols per Block</Label>
+                <Input
+                  id="ciphertext-block-size"
+                  type="number"
+                  min={1}
+                  value={blockSize}
+                  onChange={(e) => {
+                    setBlockSize(e.target.value);
+                    setSymbolCount(undefined);
+                  }}
+                />
+              </div>
+            </>
+          ) : padding === 'oaep' && (
+            <div>
+              <Label htmlFor="ciphertext-oaep-label">OAEP Label</Label>
+              <Input
+                id="ciphertext-oaep-label"
+                value={oaepLabel}
+                onChange={(e) => setOaepLabel(e.target.value)}
+                placeholder="Leave empty if none was used"
+              />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor="ciphertext-input">Ciphertext</Label>
+          <Textarea
+            id="ciphertext-input"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setSymbolCount(undefined);
+            }}
+            placeholder={format === 'decimal' ? 'e.g., 2790, 1313, 745' : format === 'hex' ? 'e.g., 0ae6, 0521' : 'e.g., CuY=, BSE='}
+            className="math-font"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={decrypt} disabled={!input.trim()} className="flex items-center gap-2">
+            <Unlock className="w-4 h-4" />
+            Decrypt Ciphertext
+          </Button>
+          {lastEncryption && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setFormat('decimal');
+                setInput(lastEncryption.ciphertext.join(', '));
+                setPadding(lastEncryption.padding);
+                setOaepLabel(lastEncryption.oaepLabel ?? '');
+                if (lastEncryption.layout) {
+                  setEncodingId(lastEncryption.layout.encoding);
+                  setBlockSize(String(lastEncryption.layout.blockSize));
+                }
+                setSymbolCount(lastEncryption.layout?.symbolCount);
+              }}
+            >
+              Use Ciphertext from Step 3
+            </Button>
+          )}
+        </div>
+
+        {entries && entries.some(entry => entry.error) && (
+          <ul className="space-y-2">
+            {entries.map(entry => (
+              <li key={entry.label} className="flex items-start gap-3 math-font text-sm">
+                {entry.error
+                  ? <XCircle className="w-4 h-4 shrink-0 text-destructive" />
+                  : <CheckCircle className="w-4 h-4 shrink-0 text-success" />}
+                <Badge variant="outline" className="shrink-0">Value {entry.label}</Badge>
+                <span className={`break-all ${entry.error ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  "{entry.text}"{entry.error ? `: ${entry.error}` : entry.value !== null && ` = ${entry.value}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {result && (
+          <>
+            <Alert className="border-success/30 bg-success/5">
+              <CheckCircle className="w-5 h-5 text-success" />
+              <AlertDescription className="text-base break-all">
+                Decrypted message: <strong className="text-success">"{result.decrypted}"</strong>
+              </AlertDescription>
+            </Alert>
+
+            <Accordion type="single" collapsible>
+              <AccordionItem value="ciphertext-steps" className="border border-success/20 rounded-xl">
+                <AccordionTrigger className="px-6 py-4 hover:bg-success/5 transition-ultra rounded-xl">
+                  <div className="flex items-center gap-2">
+                    <Unlock className="w-5 h-5 text-success" />
+                    <span className="font-semibold">Show Decryption Steps</span>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="px-6 pb-6">
+                  <div className="space-y-4 math-font">
+                    {result.steps.map((step, index) => (
+                      <div key={index} className="math-step flex items-start gap-4 p-4 rounded-xl bg-success/5 border border-success/10">
+                        <Badge variant="outline" className="shrink-0 font-bold text-sm px-3 py-1">
+                          {index + 1}
+                        </Badge>
+                        <span className="text-base leading-relaxed font-medium break-all">{step}</span>
+                      </div>
+                    ))}
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
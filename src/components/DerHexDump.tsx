@@ -0,0 +1,45 @@
+/**
+ * Annotated DER Hex Dump
+ * Every ASN.1 field with its offset, tag and length bytes, content bytes and meaning
+ */
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { tagName, type DerField } from '@/lib/asn1';
+import { bytesToHex } from '@/lib/bytes';
+
+interface DerHexDumpProps {
+  fields: DerField[];
+}
+
+export function DerHexDump({ fields }: DerHexDumpProps) {
+  return (
+    <div className="max-h-96 overflow-auto rounded-lg border border-math-formula/20">
+      <Table className="math-font text-sm">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Offset</TableHead>
+            <TableHead>Tag + Length</TableHead>
+            <TableHead>Content</TableHead>
+            <TableHead>Field</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {fields.map(field => (
+            <TableRow key={field.offset}>
+              <TableCell>{field.offset.toString(16).padStart(4, '0')}</TableCell>
+              <TableCell className="whitespace-nowrap text-math-formula">{bytesToHex(field.header)}</TableCell>
+              <TableCell className="break-all">{bytesToHex(field.content)}</TableCell>
+              <TableCell>
+                <div style={{ paddingLeft: `${field.depth}rem` }}>
+                  <span className="font-semibold">{field.label}</span>{' '}
+                  <span className="text-muted-foreground">{tagName(field.tag)}, {field.length} bytes</span>
+                  {field.value && <p className="text-xs text-muted-foreground break-all">{field.value}</p>}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * File Encryptor
+ * Drop any file to encrypt it for the current key, or drop a container to get the original file back
+ */
+
+import { useEffect, useState, type DragEvent } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { AlertTriangle, CheckCircle, Download, FileLock, Upload } from 'lucide-react';
+import { CONTAINER_EXTENSION, FileContainerError, decryptFile, encryptFile, isContainer } from '@/lib/file-container';
+import { HybridError } from '@/lib/hybrid';
+import { cn, downloadFile } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+interface FileEncryptorProps {
+  // The key from Step 1; d is null for a public key, which can still encrypt
+  activeKey: { n: bigint; e: bigint; d: bigint | null };
+}
+
+interface FileResult {
+  action: 'encrypted' | 'decrypted';
+  fileName: string;
+  blob: Blob;
+  steps: string[];
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function FileEncryptor({ activeKey }: FileEncryptorProps) {
+  const [dragging, setDragging] = useState(false);
+  const [progress, setProgress] = useState<{ action: string; done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<FileResult | null>(null);
+  const { toast } = useToast();
+
+  // A file dropped outside the drop zone would otherwise make the browser leave the page to open it
+  useEffect(() => {
+    const preventOpen = (event: globalThis.DragEvent) => event.preventDefault();
+    window.addEventListener('dragover', preventOpen);
+    window.addEventListener('drop', preventOpen);
+    return () => {
+      window.removeEventListener('dragover', preventOpen);
+      window.removeEventListener('drop', preventOpen);
+    };
+  }, []);
+
+  const process = async (file: File | undefined) => {
+    if (!file || progress) return;
+    setError(null);
+    setResult(null);
+    try {
+      if (await isContainer(file)) {
+        if (activeKey.d === null) {
+          throw new FileContainerError('Decrypting a container needs the private exponent d; the current key is public only');
+        }
+        const key = { n: activeKey.n, e: activeKey.e, d: activeKey.d };
+        const decrypted = await decryptFile(file, key, (done, total) => setProgress({ action: 'Decrypting', done, total }));
+        setResult({ action: 'decrypted', fileName: decrypted.header.fileName, blob: decrypted.plaintext, steps: decrypted.steps });
+      } else {
+        const encrypted = await encryptFile(file, activeKey, (done, total) => setProgress({ action: 'Encrypting', done, total }));
+        setResult({ action: 'encrypted', fileName: `${file.name}${CONTAINER_EXTENSION}`, blob: encrypted.container, steps: encrypted.steps });
+      }
+    } catch (err) {
+      if (err instanceof FileContainerError || err instanceof HybridError) {
+        setError(err.message);
+      } else {
+        // Reading the file or WebCrypto itself failed
+        toast({
+          title: "File Processing Failed",
+          description: err instanceof Error ? err.message : String(err),
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const drop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    process(event.dataTransfer.files[0]);
+  };
+
+  return (
+    <Card className="glass-card hover-float transform-3d animate-morph-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileLock className="w-5 h-5 text-primary" />
+          Encrypt and Decrypt Files
+        </CardTitle>
+        <CardDescription>
+          Hybrid encryption for whole files: a fresh AES-256-GCM key encrypts the file in 1 MB chunks and RSA wraps that key.
+          Files are read and written in this browser and never uploaded.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          onDragOver={(event) => event.preventDefault()}
+          onDragEnter={() => setDragging(true)}
+          onDragLeave={() => setDragging(false)}
+          onDrop={drop}
+          className={cn(
+            'flex flex-col items-center gap-2 p-8 rounded-xl border-2 border-dashed text-center transition-ultra',
+            dragging ? 'border-primary bg-primary/10' : 'border-primary/30 bg-primary/5'
+          )}
+        >
+          <Upload className="w-8 h-8 text-primary" />
+          <p className="font-semibold">Drop a file here</p>
+          <p className="text-sm text-muted-foreground">
+            Any file is encrypted for the current key; a {CONTAINER_EXTENSION} container is decrypted with it
+          </p>
+        </div>
+        <div>
+          <Label htmlFor="file-encrypt-input">Or choose a file</Label>
+          <Input
+            id="file-encrypt-input"
+            type="file"
+            disabled={!!progress}
+            onChange={(event) => {
+              process(event.target.files?.[0]);
+              event.target.value = '';
+            }}
+          />
+        </div>
+
+        {progress && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{progress.action}…</span>
+              <span className="math-font">{formatSize(progress.done)} / {formatSize(progress.total)}</span>
+            </div>
+            <Progress value={progress.total === 0 ? 100 : (progress.done / progress.total) * 100} />
+          </div>
+        )}
+
+        {error && (
+          <Alert className="border-destructive/40 bg-destructive/10">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+            <AlertDescription>
+              <strong>Could not process this file:</strong> {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <>
+            <Alert className="border-success/30 bg-success/5">
+              <CheckCircle className="w-5 h-5 text-success" />
+              <AlertDescription className="flex flex-wrap items-center gap-2 break-all">
+                <span>
+                  {result.action === 'encrypted' ? 'Encrypted' : 'Decrypted'} <strong>{result.fileName}</strong>
+                </span>
+                <Badge variant="outline">{formatSize(result.blob.size)}</Badge>
+              </AlertDescription>
+            </Alert>
+            <Button
+              onClick={() => downloadFile(result.fileName, result.blob, 'application/octet-stream')}
+              className="flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Download {result.action === 'encrypted' ? 'Container' : 'File'}
+            </Button>
+            <Accordion type="single" collapsible>
+              <AccordionItem value="file-steps" className="border border-math-formula/20 rounded-xl">
+                <AccordionTrigger className="px-6 py-4 hover:bg-math-formula/5 transition-ultra rounded-xl">
+                  <span className="font-semibold">Show {result.action === 'encrypted' ? 'Encryption' : 'Decryption'} Steps</span>
+                </AccordionTrigger>
+                <AccordionContent className="px-6 pb-6 space-y-2">
+                  {result.steps.map((step, index) => (
+                    <p key={index} className="math-font text-sm break-all">{step}</p>
+                  ))}
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * Fingerprint Display
+ * The SHA-256 fingerprint of a public key as hex, base64 and randomart, for comparing keys at a glance
+ */
+
+import { Fingerprint } from 'lucide-react';
+import type { KeyFingerprint } from '@/lib/fingerprint';
+
+interface FingerprintDisplayProps {
+  fingerprint: KeyFingerprint;
+}
+
+export function FingerprintDisplay({ fingerprint }: FingerprintDisplayProps) {
+  return (
+    <div className="math-3d p-4 rounded-xl border border-math-formula/20 space-y-3">
+      <h5 className="font-semibold text-math-formula flex items-center gap-2">
+        <Fingerprint className="w-4 h-4" />
+        Key Fingerprint
+      </h5>
+      <div className="flex flex-col md:flex-row gap-4">
+        <pre className="math-font text-sm leading-tight shrink-0 self-start p-2 rounded-lg bg-background/50 border border-math-formula/10">
+          {fingerprint.randomart}
+        </pre>
+        <div className="space-y-2 min-w-0 text-sm">
+          <p className="text-muted-foreground">SHA-256 of the SubjectPublicKeyInfo DER</p>
+          <div>
+            <span className="font-semibold">Hex</span>
+            <p className="math-font break-all">{fingerprint.hex}</p>
+          </div>
+          <div>
+            <span className="font-semibold">Base64</span>
+            <p className="math-font break-all">{fingerprint.base64}</p>
+          </div>
+          <p className="text-muted-foreground">
+            Different keys give completely different pictures, so a glance at the randomart tells two keys apart.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
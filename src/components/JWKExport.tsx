@@ -0,0 +1,127 @@
+/**
+ * JWK Export and WebCrypto Cross-Check
+ * Show the key as a JSON Web Key, then prove crypto.subtle and this demo agree on it
+ */
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Braces, CheckCircle, Download, Globe, XCircle } from 'lucide-react';
+import { toJWK } from '@/lib/jwk';
+import { crossCheckWebCrypto, type InteropCheck } from '@/lib/webcrypto-interop';
+import type { RSAKeyPair, RSAPartialKey } from '@/lib/rsa-utils';
+import { downloadFile } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+
+interface JWKExportProps {
+  activeKey: RSAKeyPair | RSAPartialKey;
+}
+
+export function JWKExport({ activeKey }: JWKExportProps) {
+  const json = useMemo(() => JSON.stringify(toJWK(activeKey), null, 2), [activeKey]);
+  const [message, setMessage] = useState('Hello, WebCrypto!');
+  const [result, setResult] = useState<{ checks: InteropCheck[]; steps: string[] } | null>(null);
+  const { toast } = useToast();
+  const keyPair = 'p' in activeKey ? activeKey : null;
+
+  const runCrossCheck = async () => {
+    try {
+      setResult(await crossCheckWebCrypto(message, keyPair));
+    } catch (error) {
+      toast({
+        title: "Cross-Check Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="glass-card hover-float transform-3d animate-bounce-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Braces className="w-5 h-5 text-primary" />
+          JSON Web Key
+        </CardTitle>
+        <CardDescription>
+          The same numbers as base64url strings (RFC 7517), the form crypto.subtle and web APIs exchange keys in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="export-jwk">JWK {'p' in activeKey ? '(private key)' : activeKey.d === null ? '(public key)' : '(n, e and d)'}</Label>
+          <Textarea id="export-jwk" readOnly value={json} rows={10} className="math-font text-xs" />
+        </div>
+
+        <Button
+          variant="outline"
+          onClick={() => downloadFile('rsa-key.jwk.json', json, 'application/json')}
+          className="flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" />
+          Download .json
+        </Button>
+
+        {keyPair ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="flex-1 min-w-48">
+                <Label htmlFor="webcrypto-message">Test Message</Label>
+                <Input id="webcrypto-message" value={message} onChange={(e) => setMessage(e.target.value)} />
+              </div>
+              <Button variant="outline" onClick={runCrossCheck} disabled={!message} className="flex items-center gap-2">
+                <Globe className="w-4 h-4" />
+                Cross-Check with WebCrypto
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Imports the JWK into crypto.subtle, then encrypts (RSA-OAEP) and signs (RSASSA-PKCS1-v1_5) on each side
+              and decrypts or verifies on the other.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            The WebCrypto cross-check needs the full key with p and q.
+          </p>
+        )}
+
+        {result && (
+          <div className="space-y-3">
+            <ul className="space-y-2">
+              {result.checks.map(check => (
+                <li
+                  key={check.name}
+                  className={`flex items-center gap-3 p-3 rounded-xl border ${check.passed ? 'border-success/20 bg-success/5' : 'border-destructive/30 bg-destructive/10'}`}
+                >
+                  {check.passed
+                    ? <CheckCircle className="w-5 h-5 shrink-0 text-success" />
+                    : <XCircle className="w-5 h-5 shrink-0 text-destructive" />}
+                  <span className="font-semibold math-font">{check.name}</span>
+                </li>
+              ))}
+            </ul>
+            <Accordion type="single" collapsible>
+              <AccordionItem value="webcrypto-steps" className="border border-math-formula/20 rounded-xl">
+                <AccordionTrigger className="px-6 py-4 hover:bg-math-formula/5 transition-ultra rounded-xl">
+                  <div className="flex items-center gap-2">
+                    <Globe className="w-5 h-5 text-math-formula" />
+                    <span className="font-semibold">Show Cross-Check Details</span>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="px-6 pb-6 space-y-2">
+                  {result.steps.map((step, index) => (
+                    <p key={index} className="math-font text-sm break-all">{step}</p>
+                  ))}
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * JWK Import
+ * Paste or load a JSON Web Key, the format browsers and most web APIs exchange keys in
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { JWKError, importJWK } from '@/lib/jwk';
+import type { RSAKeyPair, RSAPartialKey } from '@/lib/rsa-utils';
+
+interface JWKImportProps {
+  onImported: (key: RSAKeyPair | RSAPartialKey) => void;
+}
+
+export function JWKImport({ onImported }: JWKImportProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = (json: string) => {
+    try {
+      onImported(importJWK(json));
+      setError(null);
+    } catch (err) {
+      if (!(err instanceof JWKError)) throw err;
+      setError(err.message);
+    }
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const json = await file.text();
+    setText(json);
+    load(json);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="import-jwk">JSON Web Key</Label>
+        <Textarea
+          id="import-jwk"
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          placeholder={'{ "kty": "RSA", "n": "…", "e": "AQAB" }'}
+          rows={8}
+          className="math-font text-xs"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <Button onClick={() => load(text)} disabled={!text.trim()} className="flex items-center gap-2">
+          <FileUp className="w-4 h-4" />
+          Import JWK
+        </Button>
+        <div>
+          <Label htmlFor="import-jwk-file">Or choose a .json file</Label>
+          <Input
+            id="import-jwk-file"
+            type="file"
+            accept=".json,.jwk"
+            onChange={(event) => loadFile(event.target.files?.[0])}
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        A JWK with p, q, dp, dq and qi gives the full key; one with only n and e (and optionally d) gives a public key.
+      </p>
+
+      {error && (
+        <Alert className="border-destructive/40 bg-destructive/10">
+          <AlertTriangle className="w-5 h-5 text-destructive" />
+          <AlertDescription>
+            <strong>Could not import this key:</strong> {error}
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
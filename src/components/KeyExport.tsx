@@ -0,0 +1,114 @@
+/**
+ * Key Export
+ * Save the key in the standard DER / PEM formats that OpenSSL and browsers read
+ */
+
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Download, FileKey, Binary, Fingerprint } from 'lucide-react';
+import { DerHexDump } from './DerHexDump';
+import { fingerprintText } from '@/lib/fingerprint';
+import { KEY_EXPORT_FORMATS, exportKey, type KeyExportFormat } from '@/lib/key-formats';
+import type { RSAKeyPair, RSAPartialKey } from '@/lib/rsa-utils';
+import { downloadFile } from '@/lib/utils';
+import { useKeyFingerprint } from '@/hooks/use-key-fingerprint';
+
+interface KeyExportProps {
+  activeKey: RSAKeyPair | RSAPartialKey;
+}
+
+export function KeyExport({ activeKey }: KeyExportProps) {
+  const hasFactors = 'p' in activeKey;
+  const [format, setFormat] = useState<KeyExportFormat>('spki');
+  const selected = KEY_EXPORT_FORMATS[format].isPrivate && !hasFactors ? 'spki' : format;
+  const exported = useMemo(() => exportKey(activeKey, selected), [activeKey, selected]);
+  const { fileName, pemLabel } = KEY_EXPORT_FORMATS[selected];
+  const fingerprint = useKeyFingerprint(activeKey);
+
+  return (
+    <Card className="glass-card hover-float transform-3d animate-bounce-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileKey className="w-5 h-5 text-primary" />
+          Export Key
+        </CardTitle>
+        <CardDescription>
+          Real software stores keys as ASN.1 structures encoded in DER, usually wrapped in base64 PEM armor.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="export-format">Format</Label>
+          <Select value={selected} onValueChange={(value) => setFormat(value as KeyExportFormat)}>
+            <SelectTrigger id="export-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(KEY_EXPORT_FORMATS) as KeyExportFormat[]).map(id => (
+                <SelectItem key={id} value={id} disabled={KEY_EXPORT_FORMATS[id].isPrivate && !hasFactors}>
+                  {KEY_EXPORT_FORMATS[id].label}
+                  {KEY_EXPORT_FORMATS[id].isPrivate && !hasFactors && ' (needs p and q)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="export-pem">PEM ({exported.der.length} bytes of DER)</Label>
+          <Textarea id="export-pem" readOnly value={exported.pem} rows={8} className="math-font text-xs" />
+        </div>
+
+        {fingerprint && (
+          <div className="flex items-start gap-2 text-sm">
+            <Fingerprint className="w-4 h-4 shrink-0 mt-0.5 text-math-formula" />
+            <div className="min-w-0">
+              <p className="math-font break-all">{fingerprint.hex}</p>
+              <p className="text-muted-foreground">
+                Downloaded .pem files start with this fingerprint and its randomart; OpenSSL skips text before the BEGIN line.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => downloadFile(`${fileName}.pem`, fingerprint ? fingerprintText(fingerprint) + exported.pem : exported.pem, 'application/x-pem-file')}
+            className="flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Download .pem
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => downloadFile(`${fileName}.der`, exported.der, 'application/octet-stream')}
+            className="flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Download .der
+          </Button>
+        </div>
+
+        <Accordion type="single" collapsible>
+          <AccordionItem value="der-dump" className="border border-math-formula/20 rounded-xl">
+            <AccordionTrigger className="px-6 py-4 hover:bg-math-formula/5 transition-ultra rounded-xl">
+              <div className="flex items-center gap-2">
+                <Binary className="w-5 h-5 text-math-formula" />
+                <span className="font-semibold">Show Annotated DER ({pemLabel})</span>
+              </div>
+            </AccordionTrigger>
+            <AccordionContent className="px-6 pb-6">
+              <DerHexDump fields={exported.fields} />
+            </AccordionContent>
+          </AccordionItem>
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * Key Import
+ * Load a PEM or DER key from OpenSSL, a browser or the export card, and show how it was parsed
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { AlertTriangle, Binary, FileUp, ListTree } from 'lucide-react';
+import { Asn1TreeView } from './Asn1TreeView';
+import { DerHexDump } from './DerHexDump';
+import { Asn1Error } from '@/lib/asn1';
+import { KEY_EXPORT_FORMATS, KeyFormatError, importKey, type ImportedKey } from '@/lib/key-formats';
+
+interface KeyImportProps {
+  onImported: (imported: ImportedKey) => void;
+}
+
+export function KeyImport({ onImported }: KeyImportProps) {
+  const [pem, setPem] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [imported, setImported] = useState<ImportedKey | null>(null);
+
+  const load = (input: string | Uint8Array) => {
+    let result: ImportedKey;
+    try {
+      result = importKey(input);
+    } catch (err) {
+      // Parse problems come with their location; anything else is a bug and should surface normally
+      if (!(err instanceof Asn1Error || err instanceof KeyFormatError)) throw err;
+      setImported(null);
+      setError(err.message);
+      return;
+    }
+    setImported(result);
+    setError(null);
+    onImported(result);
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    load(new Uint8Array(await file.arrayBuffer()));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="import-pem">PEM Key</Label>
+        <Textarea
+          id="import-pem"
+          value={pem}
+          onChange={(event) => setPem(event.target.value)}
+          placeholder={'-----BEGIN PUBLIC KEY-----\n…\n-----END PUBLIC KEY-----'}
+          rows={8}
+          className="math-font text-xs"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <Button onClick={() => load(pem)} disabled={!pem.trim()} className="flex items-center gap-2">
+          <FileUp className="w-4 h-4" />
+          Import PEM
+        </Button>
+        <div>
+          <Label htmlFor="import-file">Or choose a .pem / .der file</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".pem,.der,.key,.pub"
+            onChange={(event) => loadFile(event.target.files?.[0])}
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        PKCS#1 and PKCS#8 private keys give the full key with p and q; PKCS#1 and SPKI public keys give n and e only.
+        Encrypted private keys are not supported.
+      </p>
+
+      {error && (
+        <Alert className="border-destructive/40 bg-destructive/10">
+          <AlertTriangle className="w-5 h-5 text-destructive" />
+          <AlertDescription>
+            <strong>Could not import this key:</strong> {error}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {imported && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline">{KEY_EXPORT_FORMATS[imported.format].label}</Badge>
+            <Badge variant="outline">{imported.der.length} bytes of DER</Badge>
+          </div>
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            <ListTree className="w-4 h-4 text-math-formula" />
+            ASN.1 Structure
+          </div>
+          <Asn1TreeView fields={imported.fields} />
+          <Accordion type="single" collapsible>
+            <AccordionItem value="import-der" className="border border-math-formula/20 rounded-xl">
+              <AccordionTrigger className="px-6 py-4 hover:bg-math-formula/5 transition-ultra rounded-xl">
+                <div className="flex items-center gap-2">
+                  <Binary className="w-5 h-5 text-math-formula" />
+                  <span className="font-semibold">Show Annotated DER</span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="px-6 pb-6">
+                <DerHexDump fields={imported.fields} />
+              </AccordionContent>
+            </AccordionItem>
+          </Accordion>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Key Pair Validator
+ * Type in any (n, e, d, p, q) tuple and check whether it forms a working RSA key pair
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ClipboardCheck } from 'lucide-react';
+import { KeyValidationChecklist } from './KeyValidationChecklist';
+import { validateKeyPair, type KeyValidationCheck } from '@/lib/key-validation';
+import { useToast } from '@/hooks/use-toast';
+
+const FIELDS = [
+  { id: 'n', label: 'Modulus n', placeholder: 'e.g., 3233' },
+  { id: 'e', label: 'Public exponent e', placeholder: 'e.g., 17' },
+  { id: 'd', label: 'Private exponent d', placeholder: 'e.g., 413' },
+  { id: 'p', label: 'Prime p', placeholder: 'e.g., 61' },
+  { id: 'q', label: 'Prime q', placeholder: 'e.g., 53' },
+] as const;
+
+type FieldId = typeof FIELDS[number]['id'];
+
+export function KeyPairValidator() {
+  const [values, setValues] = useState<Record<FieldId, string>>({ n: '', e: '', d: '', p: '', q: '' });
+  const [checks, setChecks] = useState<KeyValidationCheck[] | null>(null);
+  const { toast } = useToast();
+
+  const runValidation = () => {
+    const missing = FIELDS.find(field => !/^\d+$/.test(values[field.id].trim()));
+    if (missing) {
+      toast({
+        title: "Invalid Number",
+        description: `${missing.label} must be a whole number.`,
+        variant: "destructive"
+      });
+      return;
+    }
+    const [n, e, d, p, q] = FIELDS.map(field => BigInt(values[field.id].trim()));
+    setChecks(validateKeyPair({ n, e, d, p, q }));
+  };
+
+  return (
+    <Card className="glass-card hover-float transform-3d animate-morph-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-math-formula" />
+          Check Any Key Pair
+        </CardTitle>
+        <CardDescription>
+          Enter a key pair from a textbook or worksheet to see whether its numbers fit together.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {FIELDS.map(field => (
+            <div key={field.id}>
+              <Label htmlFor={`validate-${field.id}`}>{field.label}</Label>
+              <Input
+                id={`validate-${field.id}`}
+                inputMode="numeric"
+                value={values[field.id]}
+                onChange={(event) => setValues(prev => ({ ...prev, [field.id]: event.target.value }))}
+                placeholder={field.placeholder}
+                className="math-font"
+              />
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" onClick={runValidation} className="flex items-center gap-2">
+          <ClipboardCheck className="w-4 h-4" />
+          Validate Key Pair
+        </Button>
+
+        {checks && <KeyValidationChecklist checks={checks} />}
+      </CardContent>
+    </Card>
+  );
+}
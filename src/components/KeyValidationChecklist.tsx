@@ -0,0 +1,41 @@
+/**
+ * Key Validation Checklist
+ * Pass/fail list of the consistency checks run on a key pair
+ */
+
+import { CheckCircle, XCircle } from 'lucide-react';
+import type { KeyValidationCheck } from '@/lib/key-validation';
+
+interface KeyValidationChecklistProps {
+  checks: KeyValidationCheck[];
+}
+
+export function KeyValidationChecklist({ checks }: KeyValidationChecklistProps) {
+  const failures = checks.filter(check => !check.passed).length;
+
+  return (
+    <div className="space-y-3">
+      <p className={`text-sm font-semibold ${failures === 0 ? 'text-success' : 'text-destructive'}`}>
+        {failures === 0
+          ? `All ${checks.length} checks passed: this is a consistent RSA key pair.`
+          : `${failures} of ${checks.length} checks failed.`}
+      </p>
+      <ul className="space-y-2">
+        {checks.map(check => (
+          <li
+            key={check.id}
+            className={`flex items-start gap-3 p-3 rounded-xl border ${check.passed ? 'border-success/20 bg-success/5' : 'border-destructive/30 bg-destructive/10'}`}
+          >
+            {check.passed
+              ? <CheckCircle className="w-5 h-5 shrink-0 text-success" />
+              : <XCircle className="w-5 h-5 shrink-0 text-destructive" />}
+            <div className="min-w-0">
+              <p className="font-semibold math-font">{check.name}</p>
+              <p className="text-sm text-muted-foreground math-font break-all">{check.explanation}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
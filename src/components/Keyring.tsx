@@ -0,0 +1,83 @@
+/**
+ * Keyring
+ * Keys generated or imported in this browser, told apart by their randomart
+ */
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, Trash2 } from 'lucide-react';
+import { base64ToBytes } from '@/lib/bytes';
+import { randomart } from '@/lib/fingerprint';
+import type { KeyringEntry } from '@/lib/keyring';
+
+interface KeyringProps {
+  entries: KeyringEntry[];
+  // Fingerprint of the key in use, highlighted in the list
+  activeFingerprint: string | null;
+  onUse: (entry: KeyringEntry) => void;
+  onRemove: (entry: KeyringEntry) => void;
+}
+
+const HOLDS_LABELS: Record<KeyringEntry['holds'], string> = {
+  full: 'private key with p and q',
+  private: 'n, e and d',
+  public: 'public key',
+};
+
+export function Keyring({ entries, activeFingerprint, onUse, onRemove }: KeyringProps) {
+  return (
+    <Card className="glass-card hover-float transform-3d animate-morph-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5 text-primary" />
+          Keyring
+        </CardTitle>
+        <CardDescription>
+          Every key you generate or import is kept in this browser so armored messages can find their key. Keys are stored
+          unencrypted in localStorage: fine for classroom keys, never for real ones.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No keys yet. Generate or import one in Step 1.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {entries.map(entry => (
+              <div
+                key={entry.fingerprint}
+                className={`p-4 rounded-xl border space-y-3 ${entry.fingerprint === activeFingerprint ? 'border-primary bg-primary/5' : 'border-math-formula/20'}`}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold">{entry.label}</span>
+                  {entry.fingerprint === activeFingerprint && <Badge>in use</Badge>}
+                </div>
+                <pre className="math-font text-xs leading-tight">
+                  {randomart(base64ToBytes(entry.fingerprint), `RSA ${entry.bits}`)}
+                </pre>
+                <p className="math-font text-xs break-all text-muted-foreground">{entry.fingerprint}</p>
+                <p className="text-xs text-muted-foreground">
+                  {HOLDS_LABELS[entry.holds]} · added {new Date(entry.addedAt).toLocaleString()}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onUse(entry)}
+                    disabled={entry.fingerprint === activeFingerprint}
+                  >
+                    Use
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => onRemove(entry)} className="flex items-center gap-1">
+                    <Trash2 className="w-3 h-3" />
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Manual Key Entry
+ * Type in n, e and optionally d from an exercise instead of generating them from primes
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CheckCircle } from 'lucide-react';
+import { createPartialKey, type RSAPartialKey } from '@/lib/rsa-utils';
+import { useToast } from '@/hooks/use-toast';
+
+interface ManualKeyEntryProps {
+  onKeyEntered: (key: RSAPartialKey) => void;
+}
+
+export function ManualKeyEntry({ onKeyEntered }: ManualKeyEntryProps) {
+  const [n, setN] = useState('');
+  const [e, setE] = useState('');
+  const [d, setD] = useState('');
+  const { toast } = useToast();
+
+  const rejectKey = (description: string) => {
+    toast({
+      title: "Invalid Key",
+      description,
+      variant: "destructive"
+    });
+  };
+
+  const submitKey = () => {
+    const values = [n, e, d].map(value => value.trim());
+    if (!/^\d+$/.test(values[0]) || !/^\d+$/.test(values[1])) {
+      rejectKey("n and e must be whole numbers.");
+      return;
+    }
+    if (values[2] && !/^\d+$/.test(values[2])) {
+      rejectKey("d must be a whole number, or left empty for a public key.");
+      return;
+    }
+
+    const [nBigInt, eBigInt] = values.slice(0, 2).map(value => BigInt(value));
+    const dBigInt = values[2] ? BigInt(values[2]) : null;
+    if (nBigInt < 6n) {
+      rejectKey("n must be at least 6 (the product of two distinct primes).");
+      return;
+    }
+    if (eBigInt <= 1n || eBigInt >= nBigInt) {
+      rejectKey(`e must satisfy 1 < e < n = ${nBigInt}.`);
+      return;
+    }
+    if (dBigInt !== null && (dBigInt <= 1n || dBigInt >= nBigInt)) {
+      rejectKey(`d must satisfy 1 < d < n = ${nBigInt}.`);
+      return;
+    }
+
+    onKeyEntered(createPartialKey(nBigInt, eBigInt, dBigInt));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label htmlFor="manual-n">Modulus n</Label>
+          <Input
+            id="manual-n"
+            inputMode="numeric"
+            value={n}
+            onChange={(event) => setN(event.target.value)}
+            placeholder="e.g., 3233"
+            className="math-font"
+          />
+        </div>
+        <div>
+          <Label htmlFor="manual-e">Public Exponent e</Label>
+          <Input
+            id="manual-e"
+            inputMode="numeric"
+            value={e}
+            onChange={(event) => setE(event.target.value)}
+            placeholder="e.g., 17"
+            className="math-font"
+          />
+        </div>
+        <div>
+          <Label htmlFor="manual-d">Private Exponent d (optional)</Label>
+          <Input
+            id="manual-d"
+            inputMode="numeric"
+            value={d}
+            onChange={(event) => setD(event.target.value)}
+            placeholder="e.g., 2753"
+            className="math-font"
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Without p and q the demo cannot show φ(n), λ(n) or decrypt with the CRT. Leave d empty to work with a public key only.
+      </p>
+
+      <Button onClick={submitKey} disabled={!n || !e} className="flex items-center gap-2">
+        <CheckCircle className="w-4 h-4" />
+        Use This Key
+      </Button>
+    </div>
+  );
+}
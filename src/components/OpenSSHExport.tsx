@@ -0,0 +1,124 @@
+/**
+ * OpenSSH Public Key Export
+ * The public key as an authorized_keys line, with the fingerprint ssh-keygen would print
+ */
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { AlertTriangle, Binary, Download, Terminal } from 'lucide-react';
+import { SSHWireBreakdown } from './SSHWireBreakdown';
+import { exportOpenSSH, type OpenSSHPublicKey } from '@/lib/openssh';
+import type { RSAKeyPair, RSAPartialKey } from '@/lib/rsa-utils';
+import { downloadFile } from '@/lib/utils';
+
+interface OpenSSHExportProps {
+  activeKey: RSAKeyPair | RSAPartialKey;
+}
+
+export function OpenSSHExport({ activeKey }: OpenSSHExportProps) {
+  const [comment, setComment] = useState('rsa-demo');
+  const [exported, setExported] = useState<OpenSSHPublicKey | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    exportOpenSSH(activeKey.n, activeKey.e, comment)
+      .then(result => {
+        if (cancelled) return;
+        setExported(result);
+        setError(null);
+      })
+      // The fingerprint needs crypto.subtle, which insecure origins do not have
+      .catch(err => {
+        if (cancelled) return;
+        setExported(null);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeKey, comment]);
+
+  return (
+    <Card className="glass-card hover-float transform-3d animate-bounce-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Terminal className="w-5 h-5 text-primary" />
+          OpenSSH Public Key
+        </CardTitle>
+        <CardDescription>
+          The line ssh-keygen writes to id_rsa.pub and servers read from authorized_keys.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="ssh-comment">Comment</Label>
+          <Input
+            id="ssh-comment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value.replace(/[\r\n]/g, ''))}
+            placeholder="e.g., student@lab"
+          />
+        </div>
+
+        {error && (
+          <Alert className="border-destructive/40 bg-destructive/10">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+            <AlertDescription>
+              <strong>Could not export the OpenSSH key:</strong> {error}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {exported && (
+          <>
+            <div>
+              <Label htmlFor="ssh-line">id_rsa.pub</Label>
+              <Textarea id="ssh-line" readOnly value={exported.line} rows={4} className="math-font text-xs" />
+            </div>
+
+            <div>
+              <Label>Fingerprint (ssh-keygen -lvf id_rsa.pub)</Label>
+              <div className="math-font text-sm p-3 rounded-lg bg-math-formula/5 border border-math-formula/20 space-y-2">
+                <p className="break-all">{exported.fingerprint}</p>
+                <pre className="leading-tight">{exported.randomart}</pre>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">
+                SSH hashes its own wire encoding, so this differs from the SubjectPublicKeyInfo fingerprint in Step 2.
+              </p>
+            </div>
+
+            <Button
+              variant="outline"
+              onClick={() => downloadFile('id_rsa.pub', `${exported.line}\n`, 'text/plain')}
+              className="flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Download id_rsa.pub
+            </Button>
+
+            <Accordion type="single" collapsible>
+              <AccordionItem value="ssh-wire" className="border border-math-formula/20 rounded-xl">
+                <AccordionTrigger className="px-6 py-4 hover:bg-math-formula/5 transition-ultra rounded-xl">
+                  <div className="flex items-center gap-2">
+                    <Binary className="w-5 h-5 text-math-formula" />
+                    <span className="font-semibold">Show Wire Fields ({exported.blob.length} bytes)</span>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="px-6 pb-6">
+                  <SSHWireBreakdown fields={exported.fields} />
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * OpenSSH Public Key Import
+ * Read n and e back out of an "ssh-rsa AAAA…" line
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, FileUp } from 'lucide-react';
+import { SSHWireBreakdown } from './SSHWireBreakdown';
+import { OpenSSHError, parseOpenSSH, type OpenSSHPublicKey } from '@/lib/openssh';
+import { createPartialKey, type RSAPartialKey } from '@/lib/rsa-utils';
+
+interface OpenSSHImportProps {
+  onImported: (key: RSAPartialKey) => void;
+}
+
+export function OpenSSHImport({ onImported }: OpenSSHImportProps) {
+  const [line, setLine] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<OpenSSHPublicKey | null>(null);
+
+  const load = async () => {
+    try {
+      const result = await parseOpenSSH(line);
+      setParsed(result);
+      setError(null);
+      onImported(createPartialKey(result.n, result.e));
+    } catch (err) {
+      if (!(err instanceof OpenSSHError)) throw err;
+      setParsed(null);
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="import-ssh">OpenSSH Public Key</Label>
+        <Textarea
+          id="import-ssh"
+          value={line}
+          onChange={(event) => setLine(event.target.value)}
+          placeholder="ssh-rsa AAAAB3NzaC1yc2EAAAADAQABAAABAQ… student@lab"
+          rows={4}
+          className="math-font text-xs"
+        />
+      </div>
+
+      <Button onClick={load} disabled={!line.trim()} className="flex items-center gap-2">
+        <FileUp className="w-4 h-4" />
+        Import ssh-rsa Key
+      </Button>
+
+      <p className="text-sm text-muted-foreground">
+        Paste the contents of an id_rsa.pub file or one line of authorized_keys. It holds only n and e, so you can encrypt
+        but not decrypt.
+      </p>
+
+      {error && (
+        <Alert className="border-destructive/40 bg-destructive/10">
+          <AlertTriangle className="w-5 h-5 text-destructive" />
+          <AlertDescription>
+            <strong>Could not import this key:</strong> {error}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {parsed && (
+        <div className="space-y-3">
+          <p className="math-font text-sm break-all p-3 rounded-lg bg-math-formula/5 border border-math-formula/20">
+            {parsed.fingerprint}
+          </p>
+          <SSHWireBreakdown fields={parsed.fields} />
+        </div>
+      )}
+    </div>
+  );
+}
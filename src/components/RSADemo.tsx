@@ -3,7 +3,7 @@
  * Interactive educational tool for Class 12 Mathematics project
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -12,6 +12,9 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Key, 
   Lock, 
@@ -24,24 +27,130 @@ import {
   ArrowRight
 } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle';
+import { BezoutTable } from './BezoutTable';
+import { SquareMultiplyTrace } from './SquareMultiplyTrace';
+import { BlockMapping } from './BlockMapping';
+import { SignatureStep } from './SignatureStep';
+import { KeyValidationChecklist } from './KeyValidationChecklist';
+import { KeyPairValidator } from './KeyPairValidator';
+import { ManualKeyEntry } from './ManualKeyEntry';
+import { CiphertextDecryptor } from './CiphertextDecryptor';
+import { KeyExport } from './KeyExport';
+import { KeyImport } from './KeyImport';
+import { JWKImport } from './JWKImport';
+import { JWKExport } from './JWKExport';
+import { OpenSSHImport } from './OpenSSHImport';
+import { OpenSSHExport } from './OpenSSHExport';
+import { FingerprintDisplay } from './FingerprintDisplay';
+import { Keyring } from './Keyring';
+import { ArmoredMessageDecryptor } from './ArmoredMessageDecryptor';
+import { FileEncryptor } from './FileEncryptor';
 import { 
-  generateRSAKeys, 
+  generateMultiPrimeRSAKeys, 
   rsaEncrypt, 
   rsaDecrypt, 
-  isPrime, 
-  validateMessage,
-  type RSAKeyPair 
+  rsaDecryptCRT,
+  timeDecryption,
+  testPrimality,
+  generatePrime,
+  choosePublicExponent,
+  eulerTotient,
+  primeLabel,
+  type PublicExponentChoice,
+  type PrivateExponentModulus,
+  type DecryptionTiming,
+  type ModularExponentiationTrace,
+  type BlockLayout,
+  chooseBlockLayout,
+  type PrimalityMethod,
+  type PrimalityResult,
+  type RSAKeyPair,
+  type RSAPartialKey
 } from '@/lib/rsa-utils';
+import { MESSAGE_ENCODINGS, maxBlockSize, type MessageBlock, type MessageEncodingId } from '@/lib/message-encoding';
+import {
+  PaddingError,
+  rsaDecryptOAEP,
+  rsaDecryptPKCS1v15,
+  rsaEncryptOAEP,
+  rsaEncryptPKCS1v15,
+  type PaddingMode
+} from '@/lib/rsa-padding';
+import { bytesToBase64, bytesToHex } from '@/lib/bytes';
+import { HybridError, hybridDecrypt, hybridEncrypt, type HybridCiphertext } from '@/lib/hybrid';
+import { validateKeyPair } from '@/lib/key-validation';
+import { KEY_EXPORT_FORMATS } from '@/lib/key-formats';
+import { JWKError } from '@/lib/jwk';
+import {
+  addToKeyring,
+  createKeyringEntry,
+  keyFromEntry,
+  loadKeyring,
+  saveKeyring,
+  type KeyringEntry,
+} from '@/lib/keyring';
+import { armorMessage } from '@/lib/message-armor';
 import { useToast } from '@/hooks/use-toast';
+import { useKeyFingerprint } from '@/hooks/use-key-fingerprint';
+
+// Hybrid encrypts the message with AES-GCM and uses RSA only for the AES key
+type EncryptionScheme = PaddingMode | 'hybrid';
 
 interface EncryptionResult {
   ciphertext: bigint[];
   steps: string[];
+  traces: ModularExponentiationTrace[];
+  padding: EncryptionScheme;
+  // Textbook results carry the block packing; padded results carry the encoded block
+  blocks?: MessageBlock[];
+  layout?: BlockLayout;
+  paddedBlock?: Uint8Array;
+  // OAEP only: the label used, and a second encryption of the same message for comparison
+  oaepLabel?: string;
+  repeatCiphertext?: bigint[];
+  // Hybrid only: ciphertext holds the wrapped key, this holds it with the IV and AES-GCM output
+  hybrid?: HybridCiphertext;
 }
 
 interface DecryptionResult {
   decrypted: string;
   steps: string[];
+  traces?: ModularExponentiationTrace[];
+  timing?: DecryptionTiming;
+}
+
+// Parse a decimal input field, returning null for empty or malformed text
+function parseBigInt(value: string): bigint | null {
+  const trimmed = value.trim();
+  return /^\d+$/.test(trimmed) ? BigInt(trimmed) : null;
+}
+
+// Split a comma- or space-separated list field into its entries
+function splitList(value: string): string[] {
+  return value.split(/[\s,]+/).filter(Boolean);
+}
+
+function PrimalityBadge({ result }: { result: PrimalityResult }) {
+  const tested = result.witnesses
+    .filter(w => w.test !== 'trial-division')
+    .map(w => (w.test === 'strong-lucas' ? `Lucas D=${w.base}` : `a=${w.base}`));
+
+  return (
+    <div className="mt-1 space-y-1">
+      {result.verdict === 'composite' ? (
+        <p className="text-sm text-destructive">Not a prime number</p>
+      ) : (
+        <Badge variant={result.verdict === 'proven-prime' ? 'default' : 'secondary'}>
+          {result.verdict === 'proven-prime' ? 'Proven prime' : 'Probably prime'}
+        </Badge>
+      )}
+      {tested.length > 0 && (
+        <p className="text-xs text-muted-foreground math-font break-all">
+          Witnesses tried: {tested.join(', ')}
+        </p>
+      )}
+    </div>
+  );
 }
 
 export function RSADemo() {
@@ -49,8 +158,12 @@ export function RSADemo() {
   
   const [p, setP] = useState('');
   const [q, setQ] = useState('');
+  const [extraPrimes, setExtraPrimes] = useState('');
   const [message, setMessage] = useState('');
   const [keyPair, setKeyPair] = useState<RSAKeyPair | null>(null);
+  const [keySource, setKeySource] = useState<'primes' | 'manual' | 'import' | 'jwk' | 'ssh'>('primes');
+  const [partialKey, setPartialKey] = useState<RSAPartialKey | null>(null);
+  const [keyring, setKeyring] = useState<KeyringEntry[]>(loadKeyring);
   const [encryptionResult, setEncryptionResult] = useState<EncryptionResult | null>(null);
   const [decryptionResult, setDecryptionResult] = useState<DecryptionResult | null>(null);
   const [currentStep, setCurrentStep] = useState<'input' | 'keys' | 'encrypt' | 'decrypt' | 'complete'>('input');
@@ -58,6 +171,21 @@ export function RSADemo() {
   const [particles, setParticles] = useState<Array<{id: number, x: number, y: number, size: number, speed: number}>>([]);
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [isTyping, setIsTyping] = useState(false);
+  const [primalityMethod, setPrimalityMethod] = useState<PrimalityMethod>('baillie-psw');
+  const [millerRabinRounds, setMillerRabinRounds] = useState('20');
+  const [primeBits, setPrimeBits] = useState('8');
+  const [primeCount, setPrimeCount] = useState('2');
+  const [isGeneratingPrimes, setIsGeneratingPrimes] = useState(false);
+  const [primeGenerationSteps, setPrimeGenerationSteps] = useState<string[]>([]);
+  const [exponentMode, setExponentMode] = useState('smallest');
+  const [customExponent, setCustomExponent] = useState('');
+  const [privateExponentModulus, setPrivateExponentModulus] = useState<PrivateExponentModulus>('phi');
+  const [useCRT, setUseCRT] = useState(false);
+  const [blockMode, setBlockMode] = useState<'per-character' | 'auto' | 'custom'>('auto');
+  const [customBlockSize, setCustomBlockSize] = useState('2');
+  const [encodingId, setEncodingId] = useState<MessageEncodingId>('utf-8');
+  const [paddingMode, setPaddingMode] = useState<EncryptionScheme>('none');
+  const [oaepLabel, setOaepLabel] = useState('');
   const { toast } = useToast();
 
   // Initialize particle system
@@ -97,18 +225,67 @@ export function RSADemo() {
   const resetDemo = () => {
     setP('');
     setQ('');
+    setExtraPrimes('');
+    setPrimeGenerationSteps([]);
     setMessage('');
     setKeyPair(null);
+    setPartialKey(null);
     setEncryptionResult(null);
     setDecryptionResult(null);
     setCurrentStep('input');
   };
 
+  // Generated keys carry p and q; manually entered keys only n, e and maybe d
+  const activeKey: RSAKeyPair | RSAPartialKey | null = keyPair ?? partialKey;
+  const activeFingerprint = useKeyFingerprint(activeKey);
+  const armoredMessage = useMemo(
+    // The armor format has no fields for the IV and AES-GCM output, so hybrid results are not armored
+    () => encryptionResult && encryptionResult.padding !== 'hybrid' && activeKey && activeFingerprint && armorMessage(encryptionResult.ciphertext, activeKey.n, {
+      keyFingerprint: activeFingerprint.base64,
+      padding: encryptionResult.padding,
+      // Padded modes always encode the message as UTF-8, one message per block
+      encoding: encryptionResult.layout?.encoding ?? 'utf-8',
+      blockSize: encryptionResult.layout?.blockSize ?? 1,
+      symbolCount: encryptionResult.layout?.symbolCount,
+      oaepLabel: encryptionResult.oaepLabel ?? '',
+    }),
+    [encryptionResult, activeKey, activeFingerprint]
+  );
+
+  useEffect(() => {
+    saveKeyring(keyring);
+  }, [keyring]);
+
+  // Memoised so random Miller–Rabin bases don't change on every animation frame
+  const primalityOptions = useMemo(
+    () => ({ method: primalityMethod, rounds: Math.max(1, Number(millerRabinRounds) || 1) }),
+    [primalityMethod, millerRabinRounds]
+  );
+  const pPrimality = useMemo(() => {
+    const value = parseBigInt(p);
+    return value === null ? null : testPrimality(value, primalityOptions);
+  }, [p, primalityOptions]);
+  const qPrimality = useMemo(() => {
+    const value = parseBigInt(q);
+    return value === null ? null : testPrimality(value, primalityOptions);
+  }, [q, primalityOptions]);
+  const extraPrimality = useMemo(
+    () => splitList(extraPrimes).map(entry => {
+      const value = parseBigInt(entry);
+      return { entry, result: value === null ? null : testPrimality(value, primalityOptions) };
+    }),
+    [extraPrimes, primalityOptions]
+  );
+  const keyChecks = useMemo(
+    () => keyPair && validateKeyPair({ ...keyPair, otherPrimes: keyPair.otherPrimes.map(info => info.prime) }),
+    [keyPair]
+  );
+
   const validatePrimes = () => {
-    const pBigInt = BigInt(p || '0');
-    const qBigInt = BigInt(q || '0');
+    const pBigInt = parseBigInt(p);
+    const qBigInt = parseBigInt(q);
     
-    if (!isPrime(pBigInt)) {
+    if (!pPrimality?.isProbablePrime) {
       toast({
         title: "Invalid Prime",
         description: `${p} is not a prime number. Try 11, 13, 17, 19, 23, etc.`,
@@ -117,7 +294,7 @@ export function RSADemo() {
       return false;
     }
     
-    if (!isPrime(qBigInt)) {
+    if (!qPrimality?.isProbablePrime) {
       toast({
         title: "Invalid Prime",
         description: `${q} is not a prime number. Try 11, 13, 17, 19, 23, etc.`,
@@ -135,9 +312,37 @@ export function RSADemo() {
       return false;
     }
 
+    const invalidExtra = extraPrimality.find(({ result }) => !result?.isProbablePrime);
+    if (invalidExtra) {
+      toast({
+        title: "Invalid Prime",
+        description: `${invalidExtra.entry} is not a prime number, so it cannot be an extra factor of n.`,
+        variant: "destructive"
+      });
+      return false;
+    }
+
+    const allPrimes = [p, q, ...extraPrimality.map(({ entry }) => entry)].map(value => BigInt(value));
+    if (new Set(allPrimes).size !== allPrimes.length) {
+      toast({
+        title: "Identical Primes",
+        description: "Every prime factor of n must be different.",
+        variant: "destructive"
+      });
+      return false;
+    }
+
     return true;
   };
 
+  const publicExponentChoice = (): PublicExponentChoice | null => {
+    if (exponentMode === 'smallest' || exponentMode === 'random') {
+      return { mode: exponentMode };
+    }
+    const value = parseBigInt(exponentMode === 'explicit' ? customExponent : exponentMode);
+    return value === null ? null : { mode: 'explicit', value };
+  };
+
   const generateKeys = async () => {
     if (!validatePrimes()) return;
     
@@ -146,12 +351,23 @@ export function RSADemo() {
     // Simulate processing time for educational effect
     await new Promise(resolve => setTimeout(resolve, 1000));
     
-    const pBigInt = BigInt(p);
-    const qBigInt = BigInt(q);
-    const keys = generateRSAKeys(pBigInt, qBigInt);
+    const primes = [p, q, ...splitList(extraPrimes)].map(value => BigInt(value));
+    const publicExponent = publicExponentChoice();
+    if (!publicExponent) {
+      toast({
+        title: "Invalid Public Exponent",
+        description: "Enter e as a whole number, e.g. 7.",
+        variant: "destructive"
+      });
+      setIsGenerating(false);
+      return;
+    }
+    const keys = generateMultiPrimeRSAKeys(primes, { publicExponent, privateExponentModulus });
     
     if (keys) {
+      rememberKey(keys, 'Generated from primes');
       setKeyPair(keys);
+      setPartialKey(null);
       setCurrentStep('keys');
       toast({
         title: "Keys Generated Successfully!",
@@ -159,9 +375,12 @@ export function RSADemo() {
         variant: "default"
       });
     } else {
+      // Re-run the exponent choice to surface the reason it was rejected
+      const reasons: string[] = [];
+      choosePublicExponent(eulerTotient(...primes), publicExponent, reasons);
       toast({
         title: "Key Generation Failed",
-        description: "Unable to generate RSA keys with these primes.",
+        description: reasons[reasons.length - 1] ?? "Unable to generate RSA keys with these primes.",
         variant: "destructive"
       });
     }
@@ -169,20 +388,149 @@ export function RSADemo() {
     setIsGenerating(false);
   };
 
-  const encryptMessage = () => {
-    if (!keyPair || !message) return;
+  const rememberKey = async (key: RSAKeyPair | RSAPartialKey, label: string) => {
+    try {
+      const entry = await createKeyringEntry(key, label);
+      setKeyring(entries => addToKeyring(entries, entry));
+    } catch (error) {
+      toast({
+        title: "Key Not Saved to Keyring",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const acceptManualKey = (key: RSAPartialKey) => {
+    rememberKey(key, 'Entered manually');
+    setPartialKey(key);
+    setKeyPair(null);
+    setEncryptionResult(null);
+    setDecryptionResult(null);
+    setCurrentStep('keys');
+    toast({
+      title: "Key Ready",
+      description: key.d === null ? "Public key loaded: you can encrypt, but not decrypt." : "Key loaded: you can encrypt and decrypt.",
+      variant: "default"
+    });
+  };
+
+  const acceptImportedKey = (key: RSAKeyPair | RSAPartialKey, source: string) => {
+    rememberKey(key, source);
+    if ('p' in key) {
+      setKeyPair(key);
+      setPartialKey(null);
+    } else {
+      setPartialKey(key);
+      setKeyPair(null);
+    }
+    setEncryptionResult(null);
+    setDecryptionResult(null);
+    setCurrentStep('keys');
+    toast({
+      title: "Key Imported",
+      description: `${source}: ${'p' in key ? 'full key pair, checked below' : 'public key only, you can encrypt but not decrypt'}.`,
+      variant: "default"
+    });
+  };
+
+  const selectKeyringEntry = (entry: KeyringEntry) => {
+    try {
+      acceptImportedKey(keyFromEntry(entry), entry.label);
+    } catch (error) {
+      if (!(error instanceof JWKError)) throw error;
+      toast({
+        title: "Stored Key Unreadable",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const encryptMessage = async () => {
+    if (!activeKey || !message) return;
+    
+    if (paddingMode === 'hybrid') {
+      try {
+        const plaintext = new TextEncoder().encode(message);
+        const result = await hybridEncrypt(plaintext, activeKey.e, activeKey.n);
+        setEncryptionResult({
+          ciphertext: [result.hybrid.wrappedKey],
+          steps: [`🔤 Encode the message as UTF-8: ${plaintext.length} bytes`, ...result.steps],
+          traces: result.traces,
+          padding: 'hybrid',
+          hybrid: result.hybrid,
+        });
+        setDecryptionResult(null);
+        setCurrentStep('encrypt');
+        toast({
+          title: "Message Encrypted!",
+          description: "Your message was encrypted with AES-GCM and the AES key was wrapped with RSA.",
+          variant: "default"
+        });
+      } catch (error) {
+        if (!(error instanceof HybridError)) throw error;
+        toast({
+          title: "Hybrid Encryption Not Possible",
+          description: error.message,
+          variant: "destructive"
+        });
+      }
+      return;
+    }
+    
+    if (paddingMode !== 'none') {
+      try {
+        if (paddingMode === 'oaep') {
+          const result = await rsaEncryptOAEP(message, activeKey.e, activeKey.n, oaepLabel);
+          const repeat = await rsaEncryptOAEP(message, activeKey.e, activeKey.n, oaepLabel);
+          setEncryptionResult({ ...result, padding: paddingMode, oaepLabel, repeatCiphertext: repeat.ciphertext });
+        } else {
+          setEncryptionResult({ ...rsaEncryptPKCS1v15(message, activeKey.e, activeKey.n), padding: paddingMode });
+        }
+        setDecryptionResult(null);
+        setCurrentStep('encrypt');
+        toast({
+          title: "Message Encrypted!",
+          description: `Your message was padded with ${paddingMode === 'oaep' ? 'OAEP' : 'PKCS#1 v1.5'} and encrypted.`,
+          variant: "default"
+        });
+      } catch (error) {
+        if (!(error instanceof PaddingError)) throw error;
+        toast({
+          title: "Padding Not Possible",
+          description: error.message,
+          variant: "destructive"
+        });
+      }
+      return;
+    }
+    
+    const invalidCharacter = MESSAGE_ENCODINGS[encodingId].findInvalidCharacter(message);
+    if (invalidCharacter) {
+      toast({
+        title: "Unsupported Character",
+        description: `${invalidCharacter}. Choose a different encoding.`,
+        variant: "destructive"
+      });
+      return;
+    }
     
-    if (!validateMessage(message, keyPair.n)) {
+    const blockSize = blockMode === 'per-character' ? 1 : blockMode === 'auto' ? 'auto' : Number(customBlockSize);
+    const layout = chooseBlockLayout(message, activeKey.n, blockSize, encodingId);
+    if (!layout) {
       toast({
         title: "Message Too Large",
-        description: `Message contains characters with ASCII values ≥ n (${keyPair.n}). Use smaller primes or shorter message.`,
+        description: blockSize === 1 || blockSize === 'auto'
+          ? `Message contains symbols ≥ n (${activeKey.n}). Use larger primes or a more compact encoding.`
+          : `${blockSize} symbols per block can exceed n (${activeKey.n}). Choose a smaller block size or larger primes.`,
         variant: "destructive"
       });
       return;
     }
     
-    const result = rsaEncrypt(message, keyPair.e, keyPair.n);
-    setEncryptionResult(result);
+    const result = rsaEncrypt(message, activeKey.e, activeKey.n, layout);
+    setEncryptionResult({ ...result, padding: 'none' });
     setCurrentStep('encrypt');
     
     toast({
@@ -192,10 +540,50 @@ export function RSADemo() {
     });
   };
 
-  const decryptMessage = () => {
-    if (!keyPair || !encryptionResult) return;
+  const decryptMessage = async () => {
+    if (!activeKey || activeKey.d === null || !encryptionResult) return;
     
-    const result = rsaDecrypt(encryptionResult.ciphertext, keyPair.d, keyPair.n);
+    let result: DecryptionResult;
+    if (encryptionResult.hybrid) {
+      try {
+        const hybrid = await hybridDecrypt(encryptionResult.hybrid, activeKey.d, activeKey.n);
+        result = {
+          decrypted: new TextDecoder().decode(hybrid.plaintext),
+          steps: [...hybrid.steps, '🔤 Decode the bytes as UTF-8'],
+          traces: hybrid.traces,
+        };
+      } catch (error) {
+        if (!(error instanceof HybridError)) throw error;
+        toast({
+          title: "Decryption Failed",
+          description: error.message,
+          variant: "destructive"
+        });
+        return;
+      }
+    } else if (encryptionResult.padding !== 'none') {
+      try {
+        if (encryptionResult.padding === 'oaep') {
+          result = await rsaDecryptOAEP(encryptionResult.ciphertext, activeKey.d, activeKey.n, encryptionResult.oaepLabel);
+          const repeat = await rsaDecryptOAEP(encryptionResult.repeatCiphertext, activeKey.d, activeKey.n, encryptionResult.oaepLabel);
+          result.steps.push(`🔁 The second ciphertext ${encryptionResult.repeatCiphertext[0]} also decrypts to "${repeat.decrypted}"`);
+        } else {
+          result = rsaDecryptPKCS1v15(encryptionResult.ciphertext, activeKey.d, activeKey.n);
+        }
+      } catch (error) {
+        if (!(error instanceof PaddingError)) throw error;
+        toast({
+          title: "Decryption Failed",
+          description: error.message,
+          variant: "destructive"
+        });
+        return;
+      }
+    } else {
+      result = useCRT && keyPair
+        ? { ...rsaDecryptCRT(encryptionResult.ciphertext, keyPair, encryptionResult.layout), timing: timeDecryption(encryptionResult.ciphertext, keyPair) }
+        : rsaDecrypt(encryptionResult.ciphertext, activeKey.d, activeKey.n, encryptionResult.layout);
+    }
     setDecryptionResult(result);
     setCurrentStep('complete');
     
@@ -206,15 +594,32 @@ export function RSADemo() {
     });
   };
 
-  const suggestPrimes = () => {
-    const primes = [11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47];
-    const p1 = primes[Math.floor(Math.random() * primes.length)];
-    let p2 = primes[Math.floor(Math.random() * primes.length)];
-    while (p2 === p1) {
-      p2 = primes[Math.floor(Math.random() * primes.length)];
+  const generatePrimes = async () => {
+    const bits = Number(primeBits);
+    setIsGeneratingPrimes(true);
+    
+    try {
+      const generated: Awaited<ReturnType<typeof generatePrime>>[] = [];
+      while (generated.length < Number(primeCount)) {
+        const next = await generatePrime(bits);
+        if (!generated.some(result => result.prime === next.prime)) generated.push(next);
+      }
+      const [first, second, ...rest] = generated;
+      setP(first.prime.toString());
+      setQ(second.prime.toString());
+      setExtraPrimes(rest.map(result => result.prime.toString()).join(', '));
+      setPrimeGenerationSteps(generated.flatMap((result, index) =>
+        result.steps.map(step => `${primeLabel(index)}: ${step}`)
+      ));
+    } catch (error) {
+      toast({
+        title: "Prime Generation Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
     }
-    setP(p1.toString());
-    setQ(p2.toString());
+    
+    setIsGeneratingPrimes(false);
   };
 
   return (
@@ -398,99 +803,269 @@ export function RSADemo() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Key className="w-5 h-5 text-primary" />
-              Step 1: Enter Prime Numbers
+              {keySource === 'primes' ? 'Step 1: Enter Prime Numbers' : keySource === 'manual' ? 'Step 1: Enter Your Key' : 'Step 1: Import a Key'}
             </CardTitle>
             <CardDescription>
-              Choose two distinct prime numbers (p and q) to generate your RSA keys
+              {keySource === 'primes'
+                ? 'Choose two distinct prime numbers (p and q) to generate your RSA keys'
+                : keySource === 'manual'
+                ? 'Use a key from an exercise: the public key (n, e), plus d if you want to decrypt'
+                : keySource === 'import'
+                ? 'Load a PEM or DER key file, such as one made by OpenSSL or the Export Key card'
+                : keySource === 'jwk'
+                ? 'Load a JSON Web Key, such as one exported by crypto.subtle or the JSON Web Key card'
+                : 'Load the public key from an id_rsa.pub file made by ssh-keygen'}
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="key-source">Key Source</Label>
+              <Select value={keySource} onValueChange={(value) => setKeySource(value as typeof keySource)}>
+                <SelectTrigger id="key-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="primes">Generate from primes p and q</SelectItem>
+                  <SelectItem value="manual">Enter n, e and d directly</SelectItem>
+                  <SelectItem value="import">Import a PEM or DER key</SelectItem>
+                  <SelectItem value="jwk">Import a JSON Web Key</SelectItem>
+                  <SelectItem value="ssh">Import an OpenSSH public key</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {keySource === 'manual' ? (
+              <ManualKeyEntry onKeyEntered={acceptManualKey} />
+            ) : keySource === 'import' ? (
+              <KeyImport onImported={({ key, format }) => acceptImportedKey(key, KEY_EXPORT_FORMATS[format].label)} />
+            ) : keySource === 'jwk' ? (
+              <JWKImport onImported={(key) => acceptImportedKey(key, 'JSON Web Key')} />
+            ) : keySource === 'ssh' ? (
+              <OpenSSHImport onImported={(key) => acceptImportedKey(key, 'OpenSSH public key')} />
+            ) : (
+              <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="prime-p">Prime p</Label>
+                  <Input
+                    id="prime-p"
+                    inputMode="numeric"
+                    value={p}
+                    onChange={(e) => setP(e.target.value)}
+                    placeholder="Enter first prime (e.g., 11)"
+                    className={!p || pPrimality?.isProbablePrime ? '' : 'border-destructive'}
+                  />
+                  {p && !pPrimality && (
+                    <p className="text-sm text-destructive mt-1">Enter digits only</p>
+                  )}
+                  {p && pPrimality && <PrimalityBadge result={pPrimality} />}
+                </div>
+              
+                <div>
+                  <Label htmlFor="prime-q">Prime q</Label>
+                  <Input
+                    id="prime-q"
+                    inputMode="numeric"
+                    value={q}
+                    onChange={(e) => setQ(e.target.value)}
+                    placeholder="Enter second prime (e.g., 13)"
+                    className={!q || qPrimality?.isProbablePrime ? '' : 'border-destructive'}
+                  />
+                  {q && !qPrimality && (
+                    <p className="text-sm text-destructive mt-1">Enter digits only</p>
+                  )}
+                  {q && qPrimality && <PrimalityBadge result={qPrimality} />}
+                </div>
+              </div>
+
               <div>
-                <Label htmlFor="prime-p">Prime p</Label>
+                <Label htmlFor="extra-primes">Extra Primes for Multi-Prime RSA (optional, comma-separated)</Label>
                 <Input
-                  id="prime-p"
-                  type="number"
-                  value={p}
-                  onChange={(e) => setP(e.target.value)}
-                  placeholder="Enter first prime (e.g., 11)"
-                  className={!p || isPrime(BigInt(p || '0')) ? '' : 'border-destructive'}
+                  id="extra-primes"
+                  value={extraPrimes}
+                  onChange={(e) => setExtraPrimes(e.target.value)}
+                  placeholder="e.g., 17, 19"
+                  className={extraPrimality.every(({ result }) => result?.isProbablePrime) ? '' : 'border-destructive'}
                 />
-                {p && !isPrime(BigInt(p || '0')) && (
-                  <p className="text-sm text-destructive mt-1">Not a prime number</p>
+                {extraPrimality.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-2">
+                    {extraPrimality.map(({ entry, result }, index) => (
+                      <Badge
+                        key={index}
+                        variant={result?.isProbablePrime ? 'secondary' : 'destructive'}
+                        className="math-font max-w-full break-all"
+                      >
+                        {primeLabel(index + 2)} = {entry}: {result === null ? 'digits only' : result.isProbablePrime ? 'prime' : 'not prime'}
+                      </Badge>
+                    ))}
+                  </div>
                 )}
               </div>
-              
-              <div>
-                <Label htmlFor="prime-q">Prime q</Label>
-                <Input
-                  id="prime-q"
-                  type="number"
-                  value={q}
-                  onChange={(e) => setQ(e.target.value)}
-                  placeholder="Enter second prime (e.g., 13)"
-                  className={!q || isPrime(BigInt(q || '0')) ? '' : 'border-destructive'}
-                />
-                {q && !isPrime(BigInt(q || '0')) && (
-                  <p className="text-sm text-destructive mt-1">Not a prime number</p>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="primality-method">Primality Test</Label>
+                  <Select value={primalityMethod} onValueChange={(value) => setPrimalityMethod(value as PrimalityMethod)}>
+                    <SelectTrigger id="primality-method">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="baillie-psw">Baillie–PSW (deterministic)</SelectItem>
+                      <SelectItem value="miller-rabin">Miller–Rabin (probabilistic)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {primalityMethod === 'miller-rabin' && (
+                  <div>
+                    <Label htmlFor="mr-rounds">Miller–Rabin Rounds</Label>
+                    <Input
+                      id="mr-rounds"
+                      type="number"
+                      min={1}
+                      max={64}
+                      value={millerRabinRounds}
+                      onChange={(e) => setMillerRabinRounds(e.target.value)}
+                    />
+                  </div>
                 )}
               </div>
-            </div>
-            
-            <div className="flex gap-2">
-              <Button 
-                onClick={generateKeys} 
-                disabled={!p || !q || isGenerating}
-                className="flex items-center gap-2"
-              >
-                {isGenerating ? (
-                  <RefreshCw className="w-4 h-4 animate-spin" />
-                ) : (
-                  <CheckCircle className="w-4 h-4" />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="exponent-mode">Public Exponent e</Label>
+                  <Select value={exponentMode} onValueChange={setExponentMode}>
+                    <SelectTrigger id="exponent-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="smallest">Smallest valid e</SelectItem>
+                      <SelectItem value="random">Random e coprime to φ(n)</SelectItem>
+                      <SelectItem value="3">e = 3</SelectItem>
+                      <SelectItem value="17">e = 17</SelectItem>
+                      <SelectItem value="65537">e = 65537 (standard)</SelectItem>
+                      <SelectItem value="explicit">Enter my own e</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {exponentMode === 'explicit' && (
+                  <div>
+                    <Label htmlFor="custom-exponent">Your e</Label>
+                    <Input
+                      id="custom-exponent"
+                      inputMode="numeric"
+                      value={customExponent}
+                      onChange={(e) => setCustomExponent(e.target.value)}
+                      placeholder="e.g., 7"
+                    />
+                  </div>
                 )}
-                Generate RSA Keys
-              </Button>
+                <div>
+                  <Label htmlFor="private-exponent-modulus">Compute d modulo</Label>
+                  <Select value={privateExponentModulus} onValueChange={(value) => setPrivateExponentModulus(value as PrivateExponentModulus)}>
+                    <SelectTrigger id="private-exponent-modulus">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="phi">Euler φ(n) = (p-1)(q-1) (textbook)</SelectItem>
+                      <SelectItem value="lambda">Carmichael λ(n) = lcm(p-1, q-1) (PKCS#1)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            
+              <div className="flex gap-2">
+                <Button 
+                  onClick={generateKeys} 
+                  disabled={!p || !q || isGenerating}
+                  className="flex items-center gap-2"
+                >
+                  {isGenerating ? (
+                    <RefreshCw className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <CheckCircle className="w-4 h-4" />
+                  )}
+                  Generate RSA Keys
+                </Button>
               
-              <Button variant="outline" onClick={suggestPrimes}>
-                Suggest Random Primes
-              </Button>
-            </div>
+                <Select value={primeBits} onValueChange={setPrimeBits}>
+                  <SelectTrigger className="w-32" aria-label="Prime size in bits">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[8, 16, 32, 64, 128, 256, 512, 1024, 2048, 4096].map(bits => (
+                      <SelectItem key={bits} value={bits.toString()}>{bits} bits</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              
+                <Select value={primeCount} onValueChange={setPrimeCount}>
+                  <SelectTrigger className="w-32" aria-label="Number of primes">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[2, 3, 4, 5].map(count => (
+                      <SelectItem key={count} value={count.toString()}>{count} primes</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              
+                <Button variant="outline" onClick={generatePrimes} disabled={isGeneratingPrimes} className="flex items-center gap-2">
+                  {isGeneratingPrimes && <RefreshCw className="w-4 h-4 animate-spin" />}
+                  Generate Random Primes
+                </Button>
+              </div>
 
-            {/* Prime Number Helper */}
-            <Alert className="glass-card border-math-formula/30 bg-gradient-to-r from-math-formula/5 to-primary/5 hover:from-math-formula/10 hover:to-primary/10 transition-ultra animate-fade-in hover-float">
-              <BookOpen className="w-5 h-5 text-math-formula animate-glow-pulse" />
-              <AlertDescription className="space-y-3">
-                <div className="math-3d p-4 rounded-xl bg-math-formula/5 border border-math-formula/20 animate-morph-in">
-                  <p className="text-base leading-relaxed">
-                    <span className="font-bold text-math-formula text-lg animate-math-highlight">Prime Numbers:</span> 
-                    <span className="ml-2 animate-slide-up">Natural numbers greater than 1 that have no positive divisors other than 1 and themselves.</span>
-                  </p>
-                </div>
-                <div className="flex flex-wrap gap-2 animate-stagger-in">
-                  <span className="text-muted-foreground font-semibold">Examples:</span>
-                  {[2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47].map((prime, index) => (
-                    <span 
-                      key={prime}
-                      className="inline-flex items-center px-3 py-1 rounded-full bg-math-formula/20 text-math-formula font-bold border border-math-formula/30 hover:bg-math-formula/30 hover:scale-110 transition-ultra cursor-default animate-bounce-in hover-float"
-                      style={{ animationDelay: `${index * 0.1}s` }}
-                    >
-                      {prime}
-                    </span>
+              {Number(primeBits) >= 2048 && (
+                <p className="text-sm text-muted-foreground">
+                  Large primes can take a minute or more to find in the browser.
+                </p>
+              )}
+
+              {primeGenerationSteps.length > 0 && (
+                <div className="space-y-1 math-font text-sm text-muted-foreground break-all">
+                  {primeGenerationSteps.map((step, index) => (
+                    <p key={index}>{step}</p>
                   ))}
-                  <span className="text-math-formula/70 font-semibold animate-pulse">...</span>
                 </div>
-              </AlertDescription>
-            </Alert>
+              )}
+
+              {/* Prime Number Helper */}
+              <Alert className="glass-card border-math-formula/30 bg-gradient-to-r from-math-formula/5 to-primary/5 hover:from-math-formula/10 hover:to-primary/10 transition-ultra animate-fade-in hover-float">
+                <BookOpen className="w-5 h-5 text-math-formula animate-glow-pulse" />
+                <AlertDescription className="space-y-3">
+                  <div className="math-3d p-4 rounded-xl bg-math-formula/5 border border-math-formula/20 animate-morph-in">
+                    <p className="text-base leading-relaxed">
+                      <span className="font-bold text-math-formula text-lg animate-math-highlight">Prime Numbers:</span> 
+                      <span className="ml-2 animate-slide-up">Natural numbers greater than 1 that have no positive divisors other than 1 and themselves.</span>
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-2 animate-stagger-in">
+                    <span className="text-muted-foreground font-semibold">Examples:</span>
+                    {[2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47].map((prime, index) => (
+                      <span 
+                        key={prime}
+                        className="inline-flex items-center px-3 py-1 rounded-full bg-math-formula/20 text-math-formula font-bold border border-math-formula/30 hover:bg-math-formula/30 hover:scale-110 transition-ultra cursor-default animate-bounce-in hover-float"
+                        style={{ animationDelay: `${index * 0.1}s` }}
+                      >
+                        {prime}
+                      </span>
+                    ))}
+                    <span className="text-math-formula/70 font-semibold animate-pulse">...</span>
+                  </div>
+                </AlertDescription>
+              </Alert>
+              </>
+            )}
           </CardContent>
         </Card>
 
         {/* Step 2: Generated Keys */}
-        {keyPair && (
+        {activeKey && (
           <Card className="glass-card hover-float transform-3d animate-bounce-in success-bounce">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Key className="w-5 h-5 public-key-color" />
-                Step 2: Generated RSA Keys
+                {keyPair ? 'Step 2: Generated RSA Keys' : 'Step 2: Your RSA Key'}
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -503,14 +1078,14 @@ export function RSADemo() {
                   <div className="math-font space-y-3 text-lg">
                     <p className="flex items-center gap-3">
                       <span className="text-muted-foreground font-semibold">e =</span> 
-                      <span className="public-key-color font-bold bg-public-key/10 px-3 py-1 rounded-lg animate-math-highlight">
-                        {keyPair.e.toString()}
+                      <span className="public-key-color font-bold bg-public-key/10 px-3 py-1 rounded-lg animate-math-highlight break-all">
+                        {activeKey.e.toString()}
                       </span>
                     </p>
                     <p className="flex items-center gap-3">
                       <span className="text-muted-foreground font-semibold">n =</span> 
-                      <span className="public-key-color font-bold bg-public-key/10 px-3 py-1 rounded-lg animate-math-highlight">
-                        {keyPair.n.toString()}
+                      <span className="public-key-color font-bold bg-public-key/10 px-3 py-1 rounded-lg animate-math-highlight break-all">
+                        {activeKey.n.toString()}
                       </span>
                     </p>
                   </div>
@@ -524,20 +1099,79 @@ export function RSADemo() {
                   <div className="math-font space-y-3 text-lg">
                     <p className="flex items-center gap-3">
                       <span className="text-muted-foreground font-semibold">d =</span> 
-                      <span className="private-key-color font-bold bg-private-key/10 px-3 py-1 rounded-lg animate-math-highlight">
-                        {keyPair.d.toString()}
+                      <span className="private-key-color font-bold bg-private-key/10 px-3 py-1 rounded-lg animate-math-highlight break-all">
+                        {activeKey.d === null ? 'not provided' : activeKey.d.toString()}
                       </span>
                     </p>
                     <p className="flex items-center gap-3">
                       <span className="text-muted-foreground font-semibold">n =</span> 
-                      <span className="private-key-color font-bold bg-private-key/10 px-3 py-1 rounded-lg animate-math-highlight">
-                        {keyPair.n.toString()}
+                      <span className="private-key-color font-bold bg-private-key/10 px-3 py-1 rounded-lg animate-math-highlight break-all">
+                        {activeKey.n.toString()}
                       </span>
                     </p>
                   </div>
                 </div>
               </div>
 
+              {activeFingerprint && <FingerprintDisplay fingerprint={activeFingerprint} />}
+
+              {keyChecks && (
+                <div className="math-3d p-4 rounded-xl border border-math-formula/20 space-y-2">
+                  <h5 className="font-semibold text-math-formula">Key Consistency Checklist</h5>
+                  <KeyValidationChecklist checks={keyChecks} />
+                </div>
+              )}
+
+              {partialKey && (
+                <Alert className="border-math-formula/30 bg-math-formula/5">
+                  <AlertCircle className="w-5 h-5 text-math-formula" />
+                  <AlertDescription>
+                    p and q are unknown for this key, so φ(n), λ(n), CRT decryption, digital signatures and the
+                    consistency checklist are unavailable.{partialKey.d === null && ' Without d you can encrypt but not decrypt.'}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Multi-prime factorization */}
+              {keyPair && keyPair.otherPrimes.length > 0 && (
+                <div className="math-3d p-4 rounded-xl border border-math-formula/20 space-y-2">
+                  <h5 className="font-semibold text-math-formula flex items-center gap-2">
+                    Multi-Prime RSA
+                    <Badge variant="outline">{keyPair.otherPrimes.length + 2} primes</Badge>
+                  </h5>
+                  {[keyPair.p, keyPair.q, ...keyPair.otherPrimes.map(info => info.prime)].map((prime, index) => (
+                    <p key={index} className="math-font text-sm break-all">{primeLabel(index)} = {prime.toString()}</p>
+                  ))}
+                  <p className="text-sm text-muted-foreground">
+                    Each extra prime makes CRT decryption split into one more, smaller exponentiation.
+                  </p>
+                </div>
+              )}
+
+              {/* φ vs λ comparison */}
+              {keyPair?.privateExponentModulus === 'lambda' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {[
+                    { label: 'd mod φ(n)', modulus: 'φ(n)', value: keyPair.phi, d: keyPair.dPhi },
+                    { label: 'd mod λ(n)', modulus: 'λ(n)', value: keyPair.lambda, d: keyPair.dLambda }
+                  ].map(item => (
+                    <div key={item.label} className="math-3d p-4 rounded-xl border border-math-formula/20 space-y-2">
+                      <h5 className="font-semibold text-math-formula flex items-center gap-2">
+                        {item.label}
+                        {item.d === keyPair.d && <Badge variant="outline">in use</Badge>}
+                      </h5>
+                      <p className="math-font text-sm break-all">{item.modulus} = {item.value.toString()}</p>
+                      <p className="math-font text-sm break-all">d = {item.d.toString()}</p>
+                    </div>
+                  ))}
+                  <p className="md:col-span-2 text-sm text-muted-foreground">
+                    {keyPair.dPhi === keyPair.dLambda
+                      ? 'Both moduli give the same d for these primes.'
+                      : 'The two values of d differ, yet both satisfy e × d ≡ 1 (mod λ(n)), so both decrypt correctly. See the test message in the steps below.'}
+                  </p>
+                </div>
+              )}
+
               {/* Mathematical Steps */}
               <Accordion type="single" collapsible className="mt-6">
                 <AccordionItem value="math-steps" className="border border-math-formula/20 rounded-xl">
@@ -549,12 +1183,20 @@ export function RSADemo() {
                   </AccordionTrigger>
                   <AccordionContent className="px-6 pb-6">
                     <div className="space-y-4 math-font">
-                      {keyPair.steps.map((step, index) => (
+                      {activeKey.steps.map((step, index) => (
                         <div key={index} className="math-step flex items-start gap-4 p-4 rounded-xl bg-math-formula/5 border border-math-formula/10 hover:border-math-formula/20 transition-ultra">
                           <Badge variant="outline" className="shrink-0 bg-math-formula text-background font-bold text-sm px-3 py-1">
                             {index + 1}
                           </Badge>
-                          <span className="text-base leading-relaxed text-math-formula font-medium">{step}</span>
+                          <div className="min-w-0 flex-1">
+                            <span className="text-base leading-relaxed text-math-formula font-medium break-all">{step}</span>
+                            {keyPair && step.startsWith('🔐 Calculate d') && (
+                              <BezoutTable
+                                table={keyPair.inverseTable}
+                                modulusLabel={keyPair.privateExponentModulus === 'lambda' ? 'λ(n)' : 'φ(n)'}
+                              />
+                            )}
+                          </div>
                         </div>
                       ))}
                     </div>
@@ -566,18 +1208,102 @@ export function RSADemo() {
               <Separator />
               <div>
                 <Label htmlFor="message">Message to Encrypt</Label>
-                <Input
+                <Textarea
                   id="message"
                   value={message}
                   onChange={(e) => setMessage(e.target.value)}
                   placeholder="Enter your secret message"
-                  maxLength={10}
+                  rows={3}
                 />
                 <p className="text-sm text-muted-foreground mt-1">
-                  Keep it short for demonstration (max 10 characters)
+                  Textbook and padded RSA must fit the message below n; choose Hybrid for paragraphs
                 </p>
               </div>
 
+              <div>
+                <Label htmlFor="padding-mode">Padding Scheme</Label>
+                <Select value={paddingMode} onValueChange={(value) => setPaddingMode(value as EncryptionScheme)}>
+                  <SelectTrigger id="padding-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None (textbook RSA)</SelectItem>
+                    <SelectItem value="pkcs1-v1_5">PKCS#1 v1.5 (needs n of 96+ bits)</SelectItem>
+                    <SelectItem value="oaep">RSA-OAEP with SHA-256 (needs n of 536+ bits)</SelectItem>
+                    <SelectItem value="hybrid">Hybrid: AES-256-GCM message, RSA-wrapped key (needs n of 344+ bits)</SelectItem>
+                  </SelectContent>
+                </Select>
+                {paddingMode === 'oaep' && (
+                  <div className="mt-2">
+                    <Label htmlFor="oaep-label">OAEP Label (optional)</Label>
+                    <Input
+                      id="oaep-label"
+                      value={oaepLabel}
+                      onChange={(e) => setOaepLabel(e.target.value)}
+                      placeholder="Associated data bound to the ciphertext"
+                    />
+                  </div>
+                )}
+                {paddingMode === 'hybrid' ? (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    A fresh AES key encrypts the UTF-8 message of any length; RSA encrypts only that key, with OAEP
+                    when n has 784+ bits and PKCS#1 v1.5 below that.
+                  </p>
+                ) : paddingMode !== 'none' && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    The message is UTF-8 encoded and padded with random bytes into one block the size of n.
+                  </p>
+                )}
+              </div>
+
+              {paddingMode === 'none' && (
+                <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="message-encoding">Message Encoding</Label>
+                    <Select value={encodingId} onValueChange={(value) => setEncodingId(value as MessageEncodingId)}>
+                      <SelectTrigger id="message-encoding">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(MESSAGE_ENCODINGS).map(encoding => (
+                          <SelectItem key={encoding.id} value={encoding.id}>{encoding.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="block-mode">Block Packing</Label>
+                    <Select value={blockMode} onValueChange={(value) => setBlockMode(value as typeof blockMode)}>
+                      <SelectTrigger id="block-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Pack as many symbols as fit (auto)</SelectItem>
+                        <SelectItem value="custom">Choose symbols per block</SelectItem>
+                        <SelectItem value="per-character">One symbol per value (substitution cipher)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {blockMode === 'custom' && (
+                    <div>
+                      <Label htmlFor="block-size">Symbols per Block</Label>
+                      <Input
+                        id="block-size"
+                        type="number"
+                        min={1}
+                        value={customBlockSize}
+                        onChange={(e) => setCustomBlockSize(e.target.value)}
+                      />
+                    </div>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  With n = {activeKey.n.toString().length > 20 ? `${activeKey.n.toString().slice(0, 20)}…` : activeKey.n.toString()}, up to {maxBlockSize(activeKey.n, MESSAGE_ENCODINGS[encodingId].radix)} {MESSAGE_ENCODINGS[encodingId].label} symbols fit in one block ({MESSAGE_ENCODINGS[encodingId].radix.toString()}^k ≤ n).
+                </p>
+                </>
+              )}
+
               <Button 
                 onClick={encryptMessage} 
                 disabled={!message}
@@ -590,6 +1316,9 @@ export function RSADemo() {
           </Card>
         )}
 
+        {/* Digital Signatures */}
+        {keyPair && <SignatureStep key={`${keyPair.n}-${keyPair.d}`} keyPair={keyPair} />}
+
         {/* Step 3: Encryption */}
         {encryptionResult && (
           <Card className="glass-card hover-float transform-3d animate-bounce-in success-bounce">
@@ -613,6 +1342,90 @@ export function RSADemo() {
                 </div>
               </div>
 
+              {encryptionResult.hybrid && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold">
+                    Hybrid Ciphertext (key wrapped with {encryptionResult.hybrid.wrapMode === 'oaep' ? 'OAEP' : 'PKCS#1 v1.5'})
+                  </h4>
+                  <div className="grid gap-2 text-sm">
+                    <div>
+                      <span className="text-muted-foreground">Wrapped AES key (RSA): </span>
+                      <span className="math-font break-all">{encryptionResult.hybrid.wrappedKey.toString()}</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">IV ({encryptionResult.hybrid.iv.length} bytes): </span>
+                      <span className="math-font break-all">{bytesToHex(encryptionResult.hybrid.iv)}</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">
+                        AES-GCM output, base64 ({encryptionResult.hybrid.ciphertext.length} bytes including the tag):{' '}
+                      </span>
+                      <span className="math-font break-all">{bytesToBase64(encryptionResult.hybrid.ciphertext)}</span>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The value above is the wrapped key, not the message: RSA ran once however long the message is.
+                  </p>
+                </div>
+              )}
+
+              {armoredMessage && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold">Armored Message</h4>
+                  <Textarea readOnly value={armoredMessage} rows={8} className="math-font text-xs" />
+                  <p className="text-xs text-muted-foreground">
+                    The same ciphertext with the key fingerprint and settings needed to decrypt it. Paste it into
+                    "Decrypt an Armored Message" or send it to whoever holds the private key.
+                  </p>
+                </div>
+              )}
+
+              {encryptionResult.layout && encryptionResult.blocks && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold">
+                    {encryptionResult.layout.blockSize > 1
+                      ? `Symbol → Block Mapping (${encryptionResult.layout.blockSize} symbols per block, ${MESSAGE_ENCODINGS[encryptionResult.layout.encoding].label})`
+                      : `Symbol → Value Mapping (one symbol per value, ${MESSAGE_ENCODINGS[encryptionResult.layout.encoding].label})`}
+                  </h4>
+                  <BlockMapping
+                    blocks={encryptionResult.blocks}
+                    ciphertext={encryptionResult.ciphertext}
+                    encoding={MESSAGE_ENCODINGS[encryptionResult.layout.encoding]}
+                    symbolCount={encryptionResult.layout.symbolCount}
+                  />
+                </div>
+              )}
+
+              {encryptionResult.paddedBlock && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold">
+                    {encryptionResult.padding === 'oaep' ? 'OAEP Encoded Block' : 'PKCS#1 v1.5 Padded Block'} ({encryptionResult.paddedBlock.length} bytes)
+                  </h4>
+                  <p className="math-font text-sm break-all p-3 rounded-lg border border-primary/20 bg-primary/5">
+                    {bytesToHex(encryptionResult.paddedBlock)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {encryptionResult.padding === 'oaep'
+                      ? '00 · maskedSeed (32 bytes) · maskedDB. Every byte looks random because both halves are masked with MGF1.'
+                      : '00 02 header · random non-zero padding string · 00 separator · UTF-8 message bytes'}
+                  </p>
+                </div>
+              )}
+
+              {encryptionResult.repeatCiphertext && (
+                <div className="space-y-2">
+                  <h4 className="font-semibold">Same Message, Encrypted Again</h4>
+                  <p className="math-font text-sm break-all p-3 rounded-lg border border-primary/20 bg-primary/5">
+                    [{encryptionResult.repeatCiphertext.join(', ')}]
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {encryptionResult.repeatCiphertext[0] === encryptionResult.ciphertext[0]
+                      ? 'The two ciphertexts are identical.'
+                      : 'A fresh random seed makes the two ciphertexts different, yet both decrypt to the same message.'}
+                  </p>
+                </div>
+              )}
+
               <Accordion type="single" collapsible>
                 <AccordionItem value="encrypt-steps" className="border border-primary/20 rounded-xl">
                   <AccordionTrigger className="px-6 py-4 hover:bg-primary/5 transition-ultra rounded-xl">
@@ -634,15 +1447,46 @@ export function RSADemo() {
                     </div>
                   </AccordionContent>
                 </AccordionItem>
+                <AccordionItem value="encrypt-trace" className="border border-primary/20 rounded-xl mt-4">
+                  <AccordionTrigger className="px-6 py-4 hover:bg-primary/5 transition-ultra rounded-xl">
+                    <div className="flex items-center gap-2">
+                      <Calculator className="w-5 h-5 text-primary" />
+                      <span className="font-semibold">Show Square-and-Multiply Trace</span>
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent className="px-6 pb-6">
+                    <SquareMultiplyTrace
+                      traces={encryptionResult.traces}
+                      labels={encryptionResult.traces.map(trace => `m = ${trace.base}`)}
+                      exponentName="e"
+                    />
+                  </AccordionContent>
+                </AccordionItem>
               </Accordion>
 
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="use-crt"
+                  checked={useCRT && encryptionResult.padding === 'none' && !!keyPair}
+                  onCheckedChange={setUseCRT}
+                  disabled={encryptionResult.padding !== 'none' || !keyPair}
+                />
+                <Label htmlFor="use-crt">
+                  Decrypt with the Chinese Remainder Theorem (dP, dQ, qInv){!keyPair && ' (needs p and q)'}
+                </Label>
+              </div>
+
               <Button 
                 onClick={decryptMessage}
+                disabled={!activeKey || activeKey.d === null}
                 className="flex items-center gap-2"
               >
                 <Unlock className="w-4 h-4" />
                 Decrypt Message
               </Button>
+              {activeKey?.d === null && (
+                <p className="text-sm text-muted-foreground">Enter d in Step 1 to decrypt this ciphertext.</p>
+              )}
             </CardContent>
           </Card>
         )}
@@ -662,7 +1506,7 @@ export function RSADemo() {
                   <CheckCircle className="w-6 h-6 animate-glow-pulse" />
                   Decrypted Message
                 </h4>
-                <div className="text-2xl font-mono bg-success/20 p-6 rounded-xl border border-success/30 text-center animate-math-highlight">
+                <div className="text-2xl font-mono bg-success/20 p-6 rounded-xl border border-success/30 text-center whitespace-pre-wrap break-words animate-math-highlight">
                   <span className="text-success font-bold">"{decryptionResult.decrypted}"</span>
                 </div>
               </div>
@@ -675,6 +1519,28 @@ export function RSADemo() {
                 </AlertDescription>
               </Alert>
 
+              {decryptionResult.timing && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 math-font">
+                  <div className="math-3d p-4 rounded-xl">
+                    <p className="text-sm text-muted-foreground">Standard c^d mod n</p>
+                    <p className="text-lg font-bold">{decryptionResult.timing.standardMs.toFixed(4)} ms</p>
+                  </div>
+                  <div className="math-3d p-4 rounded-xl">
+                    <p className="text-sm text-muted-foreground">CRT (two half-size exponentiations)</p>
+                    <p className="text-lg font-bold">{decryptionResult.timing.crtMs.toFixed(4)} ms</p>
+                  </div>
+                  <div className="math-3d p-4 rounded-xl">
+                    <p className="text-sm text-muted-foreground">Speedup</p>
+                    <p className="text-lg font-bold text-success">
+                      {(decryptionResult.timing.standardMs / decryptionResult.timing.crtMs).toFixed(2)}×
+                    </p>
+                  </div>
+                  <p className="md:col-span-3 text-xs text-muted-foreground">
+                    Averaged over {decryptionResult.timing.iterations} runs. The gap grows with key size; try 1024-bit primes.
+                  </p>
+                </div>
+              )}
+
               <Accordion type="single" collapsible>
                 <AccordionItem value="decrypt-steps" className="border border-success/20 rounded-xl">
                   <AccordionTrigger className="px-6 py-4 hover:bg-success/5 transition-ultra rounded-xl">
@@ -696,6 +1562,23 @@ export function RSADemo() {
                     </div>
                   </AccordionContent>
                 </AccordionItem>
+                {decryptionResult.traces && (
+                  <AccordionItem value="decrypt-trace" className="border border-success/20 rounded-xl mt-4">
+                    <AccordionTrigger className="px-6 py-4 hover:bg-success/5 transition-ultra rounded-xl">
+                      <div className="flex items-center gap-2">
+                        <Calculator className="w-5 h-5 text-success" />
+                        <span className="font-semibold">Show Square-and-Multiply Trace</span>
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent className="px-6 pb-6">
+                      <SquareMultiplyTrace
+                        traces={decryptionResult.traces}
+                        labels={decryptionResult.traces.map(trace => `c = ${trace.base}`)}
+                        exponentName="d"
+                      />
+                    </AccordionContent>
+                  </AccordionItem>
+                )}
               </Accordion>
 
               <Button 
@@ -710,6 +1593,36 @@ export function RSADemo() {
           </Card>
         )}
 
+        {/* Key and Ciphertext Tools */}
+        <Keyring
+          entries={keyring}
+          activeFingerprint={activeFingerprint?.base64 ?? null}
+          onUse={selectKeyringEntry}
+          onRemove={(entry) => setKeyring(entries => entries.filter(item => item !== entry))}
+        />
+
+        {activeKey && <KeyExport activeKey={activeKey} />}
+
+        {activeKey && <JWKExport key={`${activeKey.n}-${activeKey.d}`} activeKey={activeKey} />}
+
+        {activeKey && <OpenSSHExport activeKey={activeKey} />}
+
+        <KeyPairValidator />
+
+        <CiphertextDecryptor
+          activeKey={activeKey}
+          lastEncryption={encryptionResult && encryptionResult.padding !== 'hybrid' ? {
+            ciphertext: encryptionResult.ciphertext,
+            padding: encryptionResult.padding,
+            layout: encryptionResult.layout,
+            oaepLabel: encryptionResult.oaepLabel,
+          } : undefined}
+        />
+
+        <ArmoredMessageDecryptor keyring={keyring} lastArmor={armoredMessage || null} />
+
+        {activeKey && <FileEncryptor key={`${activeKey.n}-${activeKey.d}`} activeKey={activeKey} />}
+
         {/* Enhanced Educational Information */}
         <Card className="card-gradient glass-card hover-float transform-3d animate-morph-in">
           <CardHeader className="pb-6">
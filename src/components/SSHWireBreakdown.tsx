@@ -0,0 +1,46 @@
+/**
+ * SSH Wire Breakdown
+ * The length-prefixed fields inside the base64 of an OpenSSH public key
+ */
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { bytesToHex } from '@/lib/bytes';
+import type { SSHWireField } from '@/lib/openssh';
+
+interface SSHWireBreakdownProps {
+  fields: SSHWireField[];
+}
+
+export function SSHWireBreakdown({ fields }: SSHWireBreakdownProps) {
+  return (
+    <div className="max-h-96 overflow-auto rounded-lg border border-math-formula/20">
+      <Table className="math-font text-sm">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Offset</TableHead>
+            <TableHead>Length</TableHead>
+            <TableHead>Data</TableHead>
+            <TableHead>Field</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {fields.map(field => (
+            <TableRow key={field.offset}>
+              <TableCell>{field.offset.toString(16).padStart(4, '0')}</TableCell>
+              <TableCell className="whitespace-nowrap text-math-formula">
+                {bytesToHex(field.lengthBytes)}
+                <p className="text-xs text-muted-foreground">= {field.data.length} bytes</p>
+              </TableCell>
+              <TableCell className="break-all">{bytesToHex(field.data)}</TableCell>
+              <TableCell>
+                <span className="font-semibold">{field.label}</span>{' '}
+                <span className="text-muted-foreground">{field.type}</span>
+                <p className="text-xs text-muted-foreground break-all">{field.value}</p>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
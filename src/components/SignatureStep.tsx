@@ -0,0 +1,300 @@
+/**
+ * Digital Signature Step
+ * Sign a message with d, then verify it with e, and see what tampering does
+ */
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { PenLine, ShieldCheck, ShieldX, BookOpen, Globe } from 'lucide-react';
+import {
+  DEFAULT_PSS_OPTIONS,
+  SignatureError,
+  crossCheckPSS,
+  maxPSSSaltLength,
+  rsaSign,
+  rsaVerify,
+  type PSSOptions,
+  type SignatureMode,
+} from '@/lib/rsa-signatures';
+import type { HashAlgorithm } from '@/lib/bytes';
+import type { RSAKeyPair } from '@/lib/rsa-utils';
+import { useToast } from '@/hooks/use-toast';
+
+interface SignatureStepProps {
+  keyPair: RSAKeyPair;
+}
+
+interface VerificationResult {
+  valid: boolean;
+  steps: string[];
+}
+
+interface CrossCheckResult {
+  webCryptoVerifiedHere: boolean;
+  hereVerifiedByWebCrypto: boolean;
+  steps: string[];
+}
+
+interface PSSControlsProps {
+  idPrefix: string;
+  options: PSSOptions;
+  maxSaltLength: number;
+  onChange: (options: PSSOptions) => void;
+}
+
+function PSSControls({ idPrefix, options, maxSaltLength, onChange }: PSSControlsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-hash`}>PSS Hash (also used by MGF1)</Label>
+        <Select value={options.hash} onValueChange={(value) => onChange({ ...options, hash: value as HashAlgorithm })}>
+          <SelectTrigger id={`${idPrefix}-hash`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="SHA-256">SHA-256</SelectItem>
+            <SelectItem value="SHA-384">SHA-384</SelectItem>
+            <SelectItem value="SHA-512">SHA-512</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-salt`}>Salt Length in Bytes (max {Math.max(maxSaltLength, 0)} for this n)</Label>
+        <Input
+          id={`${idPrefix}-salt`}
+          type="number"
+          min={0}
+          value={options.saltLength}
+          onChange={(e) => onChange({ ...options, saltLength: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function SignatureStep({ keyPair }: SignatureStepProps) {
+  const [mode, setMode] = useState<SignatureMode>('textbook');
+  const [message, setMessage] = useState('');
+  const [signSteps, setSignSteps] = useState<string[]>([]);
+  const [verifyMessage, setVerifyMessage] = useState('');
+  const [signature, setSignature] = useState('');
+  const [verification, setVerification] = useState<VerificationResult | null>(null);
+  const [signPSS, setSignPSS] = useState<PSSOptions>(DEFAULT_PSS_OPTIONS);
+  const [verifyPSS, setVerifyPSS] = useState<PSSOptions>(DEFAULT_PSS_OPTIONS);
+  const [crossCheck, setCrossCheck] = useState<CrossCheckResult | null>(null);
+  const { toast } = useToast();
+
+  const signMessage = async () => {
+    try {
+      const result = await rsaSign(message, keyPair.d, keyPair.n, mode, signPSS);
+      setSignSteps(result.steps);
+      setSignature(result.signature.toString());
+      setVerifyMessage(message);
+      setVerifyPSS(signPSS);
+      setVerification(null);
+    } catch (error) {
+      if (!(error instanceof SignatureError)) throw error;
+      toast({
+        title: "Cannot Sign",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const verifySignature = async () => {
+    const trimmed = signature.trim();
+    if (!/^\d+$/.test(trimmed)) {
+      setVerification({ valid: false, steps: ['❌ The signature must be a whole number'] });
+      return;
+    }
+    try {
+      setVerification(await rsaVerify(verifyMessage, BigInt(trimmed), keyPair.e, keyPair.n, mode, verifyPSS));
+    } catch (error) {
+      if (!(error instanceof SignatureError)) throw error;
+      setVerification({ valid: false, steps: [`❌ ${error.message}`] });
+    }
+  };
+
+  const runCrossCheck = async () => {
+    try {
+      setCrossCheck(await crossCheckPSS(message, keyPair, signPSS));
+    } catch (error) {
+      toast({
+        title: "Cross-Check Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="glass-card hover-float transform-3d animate-bounce-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PenLine className="w-5 h-5 text-private-key" />
+          Digital Signatures: Sign with d, Verify with e
+        </CardTitle>
+        <CardDescription>
+          Only the holder of the private key can produce s = h^d mod n, but anyone with the public key can check s^e mod n = h.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="sign-message">Message to Sign</Label>
+            <Input
+              id="sign-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              placeholder="e.g., Pay Bob 10 rupees"
+            />
+          </div>
+          <div>
+            <Label htmlFor="signature-mode">Signature Scheme</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as SignatureMode)}>
+              <SelectTrigger id="signature-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="textbook">Textbook: SHA-256 hash mod n</SelectItem>
+                <SelectItem value="pkcs1-v1_5">PKCS#1 v1.5 (needs n of 496+ bits)</SelectItem>
+                <SelectItem value="pss">RSA-PSS: randomized with a salt</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {mode === 'pss' && (
+          <PSSControls
+            idPrefix="sign-pss"
+            options={signPSS}
+            maxSaltLength={maxPSSSaltLength(keyPair.n, signPSS.hash)}
+            onChange={setSignPSS}
+          />
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={signMessage} disabled={!message} className="flex items-center gap-2">
+            <PenLine className="w-4 h-4" />
+            Sign Message
+          </Button>
+          {mode === 'pss' && (
+            <Button variant="outline" onClick={runCrossCheck} disabled={!message} className="flex items-center gap-2">
+              <Globe className="w-4 h-4" />
+              Cross-Check with WebCrypto
+            </Button>
+          )}
+        </div>
+
+        {mode === 'pss' && crossCheck && (
+          <Alert className={crossCheck.webCryptoVerifiedHere && crossCheck.hereVerifiedByWebCrypto ? 'border-success/30 bg-success/5' : 'border-destructive/40 bg-destructive/10'}>
+            <Globe className="w-5 h-5" />
+            <AlertDescription className="space-y-2">
+              {crossCheck.steps.map((step, index) => (
+                <p key={index} className="math-font text-sm break-all">{step}</p>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {signSteps.length > 0 && (
+          <>
+            <div className="space-y-4 math-font">
+              {signSteps.map((step, index) => (
+                <div key={index} className="math-step flex items-start gap-4 p-4 rounded-xl bg-private-key/5 border border-private-key/10 hover:border-private-key/20 transition-ultra">
+                  <Badge variant="outline" className="shrink-0 font-bold text-sm px-3 py-1">
+                    {index + 1}
+                  </Badge>
+                  <span className="text-base leading-relaxed font-medium break-all">{step}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="verify-message">Received Message (try changing it)</Label>
+                <Input
+                  id="verify-message"
+                  value={verifyMessage}
+                  onChange={(e) => setVerifyMessage(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="signature-value">Received Signature s (try changing a digit)</Label>
+                <Input
+                  id="signature-value"
+                  inputMode="numeric"
+                  value={signature}
+                  onChange={(e) => setSignature(e.target.value)}
+                  className="math-font"
+                />
+              </div>
+            </div>
+
+            {mode === 'pss' && (
+              <PSSControls
+                idPrefix="verify-pss"
+                options={verifyPSS}
+                maxSaltLength={maxPSSSaltLength(keyPair.n, verifyPSS.hash)}
+                onChange={setVerifyPSS}
+              />
+            )}
+
+            <Button variant="outline" onClick={verifySignature} className="flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4" />
+              Verify Signature
+            </Button>
+          </>
+        )}
+
+        {verification && (
+          <>
+            <Alert className={verification.valid ? 'border-success/30 bg-success/5' : 'border-destructive/40 bg-destructive/10'}>
+              {verification.valid
+                ? <ShieldCheck className="w-5 h-5 text-success" />
+                : <ShieldX className="w-5 h-5 text-destructive" />}
+              <AlertDescription className="text-base">
+                {verification.valid ? (
+                  <><strong className="text-success">Signature valid.</strong> The message is exactly what the key holder signed.</>
+                ) : (
+                  <><strong className="text-destructive">Verification failed!</strong> The message or the signature has been tampered with, or a different key was used.</>
+                )}
+              </AlertDescription>
+            </Alert>
+
+            <Accordion type="single" collapsible>
+              <AccordionItem value="verify-steps" className="border border-math-formula/20 rounded-xl">
+                <AccordionTrigger className="px-6 py-4 hover:bg-math-formula/5 transition-ultra rounded-xl">
+                  <div className="flex items-center gap-2">
+                    <BookOpen className="w-5 h-5 text-math-formula" />
+                    <span className="font-semibold">Show Verification Steps</span>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="px-6 pb-6">
+                  <div className="space-y-4 math-font">
+                    {verification.steps.map((step, index) => (
+                      <div key={index} className="math-step flex items-start gap-4 p-4 rounded-xl bg-math-formula/5 border border-math-formula/10">
+                        <Badge variant="outline" className="shrink-0 font-bold text-sm px-3 py-1">
+                          {index + 1}
+                        </Badge>
+                        <span className="text-base leading-relaxed font-medium break-all">{step}</span>
+                      </div>
+                    ))}
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+            </Accordion>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
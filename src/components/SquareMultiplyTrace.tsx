@@ -0,0 +1,107 @@
+/**
+ * Square-and-Multiply Trace
+ * Table of every exponent bit in binary modular exponentiation, optionally revealed bit by bit
+ */
+
+import { useEffect, useState } from 'react';
+import { Play, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ModularExponentiationTrace } from '@/lib/rsa-utils';
+
+interface SquareMultiplyTraceProps {
+  traces: ModularExponentiationTrace[];
+  labels: string[];
+  exponentName: string;
+}
+
+export function SquareMultiplyTrace({ traces, labels, exponentName }: SquareMultiplyTraceProps) {
+  const [selected, setSelected] = useState(0);
+  const [revealed, setRevealed] = useState<number | null>(null);
+
+  const trace = traces[Math.min(selected, traces.length - 1)];
+
+  // Reveal one more bit every 600ms until the whole exponent is shown
+  useEffect(() => {
+    if (revealed === null || !trace || revealed >= trace.rows.length) return;
+    const timer = setTimeout(() => setRevealed(revealed + 1), 600);
+    return () => clearTimeout(timer);
+  }, [revealed, trace]);
+
+  if (!trace) return null;
+
+  const visibleRows = revealed === null ? trace.rows : trace.rows.slice(0, revealed);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={selected.toString()}
+          onValueChange={(value) => {
+            setSelected(Number(value));
+            setRevealed(null);
+          }}
+        >
+          <SelectTrigger className="w-56" aria-label="Value to trace">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {labels.map((label, index) => (
+              <SelectItem key={index} value={index.toString()}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={() => setRevealed(0)} className="flex items-center gap-2">
+          <Play className="w-4 h-4" />
+          Animate
+        </Button>
+        {revealed !== null && (
+          <Button variant="ghost" size="sm" onClick={() => setRevealed(null)} className="flex items-center gap-2">
+            <RotateCcw className="w-4 h-4" />
+            Show all
+          </Button>
+        )}
+      </div>
+
+      <p className="math-font text-sm text-muted-foreground break-all">
+        {exponentName} = {trace.exponent.toString()} = {trace.exponent.toString(2)}₂, read from the rightmost bit.
+        For each bit, multiply the result by the current base if the bit is 1, then square the base.
+      </p>
+
+      <div className="max-h-96 overflow-auto rounded-lg border">
+        <Table className="math-font">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Bit #</TableHead>
+              <TableHead>Bit</TableHead>
+              <TableHead>Base (mod {trace.modulus.toString()})</TableHead>
+              <TableHead>Multiply?</TableHead>
+              <TableHead>Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.map(row => (
+              <TableRow key={row.bitIndex} className={row.multiplied ? 'bg-primary/5' : ''}>
+                <TableCell>{row.bitIndex}</TableCell>
+                <TableCell>{row.bit}</TableCell>
+                <TableCell className="break-all">{row.base.toString()}</TableCell>
+                <TableCell>
+                  {row.multiplied ? <Badge variant="default">× base</Badge> : <span className="text-muted-foreground">skip</span>}
+                </TableCell>
+                <TableCell className="break-all">{row.result.toString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {(revealed === null || revealed >= trace.rows.length) && (
+        <p className="math-font text-sm font-semibold break-all">
+          {trace.base.toString()}^{trace.exponent.toString()} mod {trace.modulus.toString()} = {trace.result.toString()}
+        </p>
+      )}
+    </div>
+  );
+}
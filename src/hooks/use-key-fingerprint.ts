@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { keyFingerprint, type KeyFingerprint } from '@/lib/fingerprint';
+
+// The fingerprint of a public key, or null while it is being hashed or if hashing failed
+export function useKeyFingerprint(key: { n: bigint; e: bigint } | null): KeyFingerprint | null {
+  const [fingerprint, setFingerprint] = useState<{ n: bigint; e: bigint; value: KeyFingerprint } | null>(null);
+  const n = key?.n;
+  const e = key?.e;
+
+  useEffect(() => {
+    if (n === undefined || e === undefined) return;
+    let cancelled = false;
+    keyFingerprint({ n, e })
+      .then(value => {
+        if (!cancelled) setFingerprint({ n, e, value });
+      })
+      // Without crypto.subtle (e.g. an insecure origin) the fingerprint is simply not shown
+      .catch(() => {
+        if (!cancelled) setFingerprint(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [n, e]);
+
+  // Never show the previous key's fingerprint while the new one is computed
+  return fingerprint && fingerprint.n === n && fingerprint.e === e ? fingerprint.value : null;
+}
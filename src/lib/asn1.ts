@@ -0,0 +1,259 @@
+/**
+ * RSA Encryption Learning Demo - ASN.1 DER
+ * Build DER structures from labelled nodes, parse them back, and list every field with its byte offset
+ */
+
+import { bigIntToBytes, concatBytes } from './bytes';
+
+export const ASN1_TAGS = {
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OBJECT_IDENTIFIER: 0x06,
+  SEQUENCE: 0x30,
+} as const;
+
+const TAG_NAMES: Record<number, string> = {
+  [ASN1_TAGS.INTEGER]: 'INTEGER',
+  [ASN1_TAGS.BIT_STRING]: 'BIT STRING',
+  [ASN1_TAGS.OCTET_STRING]: 'OCTET STRING',
+  [ASN1_TAGS.NULL]: 'NULL',
+  [ASN1_TAGS.OBJECT_IDENTIFIER]: 'OBJECT IDENTIFIER',
+  [ASN1_TAGS.SEQUENCE]: 'SEQUENCE',
+};
+
+export function tagName(tag: number): string {
+  return TAG_NAMES[tag] ?? `tag 0x${tag.toString(16).padStart(2, '0')}`;
+}
+
+// One ASN.1 value. Constructed values (and BIT / OCTET STRINGs that wrap another
+// structure) have children; primitive values have raw content bytes.
+export interface Asn1Node {
+  tag: number;
+  // Field name from the ASN.1 module, e.g. "modulus" or "publicExponent"
+  label: string;
+  children?: Asn1Node[];
+  content?: Uint8Array;
+  // Human-readable value shown next to the bytes
+  value?: string;
+}
+
+// A node as it appears in the encoding, for annotated hex dumps
+export interface DerField {
+  offset: number;
+  depth: number;
+  tag: number;
+  label: string;
+  // Tag and length bytes, and the length they announce
+  header: Uint8Array;
+  length: number;
+  // Content bytes that belong to this field itself (empty for SEQUENCE, the unused-bits byte for a wrapping BIT STRING)
+  content: Uint8Array;
+  value?: string;
+}
+
+// Known object identifiers, for labelling
+export const OID_NAMES: Record<string, string> = {
+  '1.2.840.113549.1.1.1': 'rsaEncryption',
+};
+
+export function asn1Integer(label: string, value: bigint): Asn1Node {
+  const magnitude = value === 0n ? Uint8Array.of(0) : bigIntToBytes(value);
+  // DER integers are two's complement, so a leading 1 bit needs a 0x00 in front
+  const content = magnitude[0] & 0x80 ? concatBytes(Uint8Array.of(0), magnitude) : magnitude;
+  return { tag: ASN1_TAGS.INTEGER, label, content, value: value.toString() };
+}
+
+export function asn1Null(label: string): Asn1Node {
+  return { tag: ASN1_TAGS.NULL, label, content: new Uint8Array(0), value: 'NULL' };
+}
+
+export function asn1ObjectIdentifier(label: string, oid: string): Asn1Node {
+  const arcs = oid.split('.').map(BigInt);
+  const encodeArc = (arc: bigint) => {
+    const digits = [Number(arc & 0x7fn)];
+    for (arc >>= 7n; arc > 0n; arc >>= 7n) digits.unshift(Number(arc & 0x7fn) | 0x80);
+    return digits;
+  };
+  const content = Uint8Array.from([arcs[0] * 40n + arcs[1], ...arcs.slice(2)].flatMap(encodeArc));
+  return { tag: ASN1_TAGS.OBJECT_IDENTIFIER, label, content, value: OID_NAMES[oid] ? `${oid} (${OID_NAMES[oid]})` : oid };
+}
+
+export function asn1Sequence(label: string, children: Asn1Node[]): Asn1Node {
+  return { tag: ASN1_TAGS.SEQUENCE, label, children };
+}
+
+export function asn1BitString(label: string, children: Asn1Node[]): Asn1Node {
+  return { tag: ASN1_TAGS.BIT_STRING, label, children };
+}
+
+export function asn1OctetString(label: string, children: Asn1Node[]): Asn1Node {
+  return { tag: ASN1_TAGS.OCTET_STRING, label, children };
+}
+
+// Definite length: short form below 128, otherwise 0x80 + number of length bytes
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) return Uint8Array.of(length);
+  const bytes = bigIntToBytes(BigInt(length));
+  return concatBytes(Uint8Array.of(0x80 | bytes.length), bytes);
+}
+
+function contentOf(node: Asn1Node): Uint8Array {
+  if (!node.children) return node.content ?? new Uint8Array(0);
+  const inner = concatBytes(...node.children.map(encodeDer));
+  // A BIT STRING starts with the number of unused bits in its last byte, always 0 here
+  return node.tag === ASN1_TAGS.BIT_STRING ? concatBytes(Uint8Array.of(0), inner) : inner;
+}
+
+export function encodeDer(node: Asn1Node): Uint8Array {
+  const content = contentOf(node);
+  return concatBytes(Uint8Array.of(node.tag), encodeLength(content.length), content);
+}
+
+// Every node in encoding order, with the offset of its tag byte
+export function annotateDer(node: Asn1Node, offset: number = 0, depth: number = 0): DerField[] {
+  const content = contentOf(node);
+  const header = concatBytes(Uint8Array.of(node.tag), encodeLength(content.length));
+  const ownContent = !node.children
+    ? content
+    : node.tag === ASN1_TAGS.BIT_STRING ? content.slice(0, 1) : new Uint8Array(0);
+
+  const fields: DerField[] = [{
+    offset, depth, tag: node.tag, label: node.label, header, length: content.length, content: ownContent, value: node.value,
+  }];
+  let childOffset = offset + header.length + ownContent.length;
+  for (const child of node.children ?? []) {
+    fields.push(...annotateDer(child, childOffset, depth + 1));
+    childOffset += encodeDer(child).length;
+  }
+  return fields;
+}
+
+// Malformed DER, with the byte offset where decoding stopped
+export class Asn1Error extends Error {
+  constructor(message: string, public offset: number) {
+    super(`${message} (at byte ${offset}, 0x${offset.toString(16).padStart(4, '0')})`);
+    this.name = 'Asn1Error';
+  }
+}
+
+// One tag-length-value element located inside the input
+export interface DerElement {
+  tag: number;
+  offset: number;
+  headerLength: number;
+  content: Uint8Array;
+  // The whole input, so nested elements can report absolute offsets
+  input: Uint8Array;
+}
+
+// Read the element starting at `offset` and ending by `limit`, rejecting anything DER forbids
+function readElement(bytes: Uint8Array, offset: number, limit: number = bytes.length): DerElement {
+  if (offset >= limit) throw new Asn1Error('Unexpected end of data where a tag was expected', offset);
+  const tag = bytes[offset];
+  if ((tag & 0x1f) === 0x1f) throw new Asn1Error(`Multi-byte tag 0x${tag.toString(16)} is not used in RSA keys`, offset);
+  if (offset + 1 >= limit) throw new Asn1Error(`${tagName(tag)} has no length byte`, offset);
+
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length === 0x80) throw new Asn1Error('Indefinite length is not allowed in DER', offset + 1);
+  if (length > 0x80) {
+    const count = length & 0x7f;
+    if (count > 4) throw new Asn1Error(`Length uses ${count} bytes, more than any key needs`, offset + 1);
+    if (offset + 2 + count > limit) throw new Asn1Error('Length bytes run past the end of the data', offset + 1);
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[offset + 2 + i];
+    if (length < 0x80 || bytes[offset + 2] === 0) {
+      throw new Asn1Error(`Length ${length} is not minimally encoded, as DER requires`, offset + 1);
+    }
+    headerLength += count;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > limit) {
+    throw new Asn1Error(`${tagName(tag)} declares ${length} content bytes but only ${limit - offset - headerLength} remain`, offset);
+  }
+  return { tag, offset, headerLength, content: bytes.subarray(offset + headerLength, end), input: bytes };
+}
+
+// Parse a complete DER structure that must fill the input exactly
+export function parseDer(bytes: Uint8Array): DerElement {
+  const element = readElement(bytes, 0);
+  const end = element.headerLength + element.content.length;
+  if (end !== bytes.length) throw new Asn1Error(`${bytes.length - end} unexpected bytes after the end of the structure`, end);
+  return element;
+}
+
+// The elements inside a SEQUENCE, an encapsulating OCTET STRING, or a BIT STRING after its unused-bits byte
+export function derChildren(element: DerElement): DerElement[] {
+  let start = 0;
+  if (element.tag === ASN1_TAGS.BIT_STRING) {
+    if (element.content[0] !== 0) {
+      throw new Asn1Error('BIT STRING wrapping a key must have 0 unused bits', element.offset + element.headerLength);
+    }
+    start = 1;
+  }
+  const contentStart = element.offset + element.headerLength;
+  const limit = contentStart + element.content.length;
+  const children: DerElement[] = [];
+  for (let position = contentStart + start; position < limit;) {
+    const child = readElement(element.input, position, limit);
+    children.push(child);
+    position += child.headerLength + child.content.length;
+  }
+  return children;
+}
+
+export function expectTag(element: DerElement, tag: number, label: string): DerElement {
+  if (element.tag !== tag) {
+    throw new Asn1Error(`Expected ${tagName(tag)} for ${label}, found ${tagName(element.tag)}`, element.offset);
+  }
+  return element;
+}
+
+// Non-negative DER INTEGER
+export function readInteger(element: DerElement, label: string): bigint {
+  const { content, offset } = expectTag(element, ASN1_TAGS.INTEGER, label);
+  if (content.length === 0) throw new Asn1Error(`${label} is an empty INTEGER`, offset);
+  if (content[0] & 0x80) throw new Asn1Error(`${label} is negative`, offset);
+  if (content.length > 1 && content[0] === 0 && !(content[1] & 0x80)) {
+    throw new Asn1Error(`${label} has a redundant leading zero byte`, offset);
+  }
+  let value = 0n;
+  for (const byte of content) value = (value << 8n) | BigInt(byte);
+  return value;
+}
+
+export function readObjectIdentifier(element: DerElement, label: string): string {
+  const { content, offset } = expectTag(element, ASN1_TAGS.OBJECT_IDENTIFIER, label);
+  const arcs: bigint[] = [];
+  let arc = 0n;
+  content.forEach((byte, index) => {
+    arc = (arc << 7n) | BigInt(byte & 0x7f);
+    if (!(byte & 0x80)) {
+      arcs.push(arc);
+      arc = 0n;
+    } else if (index === content.length - 1) {
+      throw new Asn1Error(`${label} ends in the middle of an arc`, offset);
+    }
+  });
+  if (arcs.length === 0) throw new Asn1Error(`${label} is empty`, offset);
+  const first = arcs[0] < 80n ? arcs[0] / 40n : 2n;
+  return [first, arcs[0] - first * 40n, ...arcs.slice(1)].join('.');
+}
+
+// Describe a parsed element for the tree view and hex dump; wrappers show only their own bytes
+export function elementField(element: DerElement, label: string, depth: number, value?: string): DerField {
+  const wraps = element.tag === ASN1_TAGS.SEQUENCE || element.tag === ASN1_TAGS.BIT_STRING || element.tag === ASN1_TAGS.OCTET_STRING;
+  return {
+    offset: element.offset,
+    depth,
+    tag: element.tag,
+    label,
+    header: element.input.subarray(element.offset, element.offset + element.headerLength),
+    length: element.content.length,
+    content: !wraps ? element.content : element.tag === ASN1_TAGS.BIT_STRING ? element.content.subarray(0, 1) : new Uint8Array(0),
+    value,
+  };
+}
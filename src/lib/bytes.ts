@@ -0,0 +1,108 @@
+/**
+ * RSA Encryption Learning Demo - Byte Helpers
+ * Conversions between BigInt, byte strings, hex and base64 (RFC 8017 I2OSP / OS2IP)
+ */
+
+// Number of bytes needed to hold n
+export function byteLength(n: bigint): number {
+  return n === 0n ? 0 : Math.ceil(n.toString(2).length / 8);
+}
+
+// OS2IP: big-endian bytes to a non-negative integer
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+  return value;
+}
+
+// I2OSP: non-negative integer to exactly `length` big-endian bytes (minimal length if omitted)
+export function bigIntToBytes(value: bigint, length: number = byteLength(value)): Uint8Array {
+  if (value < 0n) throw new RangeError('Cannot encode a negative integer');
+  if (byteLength(value) > length) throw new RangeError(`Integer too large for ${length} bytes`);
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Space-separated lowercase hex, e.g. "00 02 ff"
+export function bytesToHex(bytes: Uint8Array, separator: string = ' '): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join(separator);
+}
+
+// Random bytes with no zero byte, as required for PKCS#1 v1.5 padding strings
+export function randomNonZeroBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  for (let i = 0; i < length; i++) {
+    while (bytes[i] === 0) bytes[i] = crypto.getRandomValues(new Uint8Array(1))[0];
+  }
+  return bytes;
+}
+
+export function xorBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length !== b.length) throw new RangeError(`Cannot XOR ${a.length} bytes with ${b.length} bytes`);
+  return a.map((byte, i) => byte ^ b[i]);
+}
+
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+export type HashAlgorithm = 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+export const HASH_LENGTHS: Record<HashAlgorithm, number> = {
+  'SHA-256': 32,
+  'SHA-384': 48,
+  'SHA-512': 64,
+};
+
+// Message digest via SubtleCrypto
+export async function digest(hash: HashAlgorithm, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(hash, data));
+}
+
+export async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return digest('SHA-256', data);
+}
+
+// Hex digits to bytes; whitespace, colons and a leading 0x are ignored
+export function hexToBytes(hex: string): Uint8Array {
+  const digits = hex.replace(/^0x/i, '').replace(/[\s:]/g, '');
+  if (!/^[0-9a-fA-F]*$/.test(digits)) throw new RangeError(`"${hex}" is not hexadecimal`);
+  const padded = digits.length % 2 === 0 ? digits : '0' + digits;
+  return Uint8Array.from(padded.match(/../g) ?? [], pair => parseInt(pair, 16));
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+// Standard or URL-safe base64, with or without padding; whitespace is ignored
+export function base64ToBytes(base64: string): Uint8Array {
+  const normalized = base64.replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (!/^[A-Za-z0-9+/]*$/.test(normalized) || normalized.length % 4 === 1) {
+    throw new RangeError(`"${base64}" is not valid base64`);
+  }
+  const binary = atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+// RFC 4648 §5 base64url without padding, as used by JWK
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
@@ -0,0 +1,110 @@
+/**
+ * RSA Encryption Learning Demo - Ciphertext Input
+ * Parse ciphertext typed or pasted as decimal, hex or base64, check each value against n, and decrypt it
+ */
+
+import { base64ToBytes, byteLength, bytesToBigInt, hexToBytes } from './bytes';
+import {
+  OAEP_OVERHEAD,
+  PKCS1_V15_OVERHEAD,
+  PaddingError,
+  rsaDecryptOAEP,
+  rsaDecryptPKCS1v15,
+  type PaddingMode,
+} from './rsa-padding';
+import { rsaDecrypt, type BlockLayout } from './rsa-utils';
+
+export type CiphertextFormat = 'decimal' | 'hex' | 'base64';
+
+export interface CiphertextEntry {
+  // Position in the input, e.g. "3", or "3.2" for the second block of a concatenated value
+  label: string;
+  text: string;
+  value: bigint | null;
+  error: string | null;
+}
+
+function checkedEntry(label: string, text: string, value: bigint, n: bigint): CiphertextEntry {
+  return value >= n
+    ? { label, text, value, error: `${value} is not smaller than n = ${n}, so it cannot be a ciphertext for this key` }
+    : { label, text, value, error: null };
+}
+
+// Decimal values are separated by commas or spaces; hex and base64 values by commas only,
+// since hex dumps and wrapped base64 contain spaces. A hex or base64 value that is a whole
+// number of k-byte blocks (k = byte length of n) is split into one ciphertext per block.
+export function parseCiphertext(input: string, n: bigint, format: CiphertextFormat): CiphertextEntry[] {
+  const trimmed = input.trim().replace(/^\[/, '').replace(/\]$/, '');
+  const pieces = (format === 'decimal' ? trimmed.split(/[\s,]+/) : trimmed.split(','))
+    .map(piece => piece.trim())
+    .filter(Boolean);
+  const k = byteLength(n);
+
+  return pieces.flatMap((text, index): CiphertextEntry[] => {
+    const label = String(index + 1);
+    if (format === 'decimal') {
+      return [/^\d+$/.test(text)
+        ? checkedEntry(label, text, BigInt(text), n)
+        : { label, text, value: null, error: 'not a whole number' }];
+    }
+
+    let bytes: Uint8Array;
+    try {
+      bytes = format === 'hex' ? hexToBytes(text) : base64ToBytes(text);
+    } catch (error) {
+      if (!(error instanceof RangeError)) throw error;
+      return [{ label, text, value: null, error: format === 'hex' ? 'not valid hexadecimal' : 'not valid base64' }];
+    }
+    if (bytes.length === 0) {
+      return [{ label, text, value: null, error: 'contains no bytes' }];
+    }
+    if (bytes.length > k && bytes.length % k === 0) {
+      return Array.from({ length: bytes.length / k }, (_, block) =>
+        checkedEntry(`${label}.${block + 1}`, text, bytesToBigInt(bytes.slice(block * k, (block + 1) * k)), n)
+      );
+    }
+    return [checkedEntry(label, text, bytesToBigInt(bytes), n)];
+  });
+}
+
+// Smallest byte length of n each padding mode can decode: padded blocks carry fixed overhead
+export const MIN_KEY_BYTES: Record<PaddingMode, number> = {
+  'none': 1,
+  'pkcs1-v1_5': PKCS1_V15_OVERHEAD,
+  'oaep': OAEP_OVERHEAD,
+};
+
+export interface CiphertextOptions {
+  padding: PaddingMode;
+  oaepLabel: string;
+  // Only used without padding
+  layout: BlockLayout;
+}
+
+// Unpadded blocks are decrypted together, since a character may span two of them; padded values
+// each hold a whole message. Throws PaddingError naming the value that failed.
+export async function decryptCiphertext(
+  entries: { label: string; value: bigint }[],
+  key: { n: bigint; d: bigint },
+  options: CiphertextOptions
+): Promise<{ decrypted: string; steps: string[] }> {
+  if (options.padding === 'none') {
+    return rsaDecrypt(entries.map(entry => entry.value), key.d, key.n, options.layout);
+  }
+
+  const decrypted: string[] = [];
+  const steps: string[] = [];
+  for (const entry of entries) {
+    try {
+      const single = options.padding === 'oaep'
+        ? await rsaDecryptOAEP([entry.value], key.d, key.n, options.oaepLabel)
+        : rsaDecryptPKCS1v15([entry.value], key.d, key.n);
+      steps.push(`📦 Ciphertext ${entry.label}:`, ...single.steps);
+      decrypted.push(single.decrypted);
+    } catch (error) {
+      if (!(error instanceof PaddingError)) throw error;
+      throw new PaddingError(`Value ${entry.label}: ${error.message}`);
+    }
+  }
+  return { decrypted: decrypted.join(''), steps };
+}
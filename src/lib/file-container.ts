@@ -0,0 +1,243 @@
+/**
+ * RSA Encryption Learning Demo - Encrypted File Containers
+ * Hybrid encryption for whole files, read and encrypted in chunks so large files report progress
+ */
+
+import { bigIntToBytes, byteLength, bytesEqual, bytesToBase64, bytesToBigInt, bytesToHex, concatBytes } from './bytes';
+import { keyFingerprint } from './fingerprint';
+import {
+  AES_KEY_BYTES,
+  GCM_IV_BYTES,
+  GCM_TAG_BYTES,
+  HybridError,
+  generateAesKey,
+  unwrapAesKey,
+  wrapAesKey,
+  type KeyWrapMode,
+} from './hybrid';
+
+export class FileContainerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileContainerError';
+  }
+}
+
+export const CONTAINER_EXTENSION = '.rsademo';
+const MAGIC = new TextEncoder().encode('RSADEMOF');
+const VERSION = 1;
+const WRAP_MODES: KeyWrapMode[] = ['oaep', 'pkcs1-v1_5'];
+// Each chunk is encrypted on its own so progress can be reported and memory stays bounded
+export const CHUNK_BYTES = 1024 * 1024;
+// magic, version, wrap mode, chunk size, file size, fingerprint
+const FIXED_HEADER_BYTES = MAGIC.length + 1 + 1 + 4 + 8 + 32;
+
+export interface ContainerHeader {
+  wrapMode: KeyWrapMode;
+  chunkBytes: number;
+  fileSize: number;
+  // SHA-256 of the recipient's SubjectPublicKeyInfo, as shown in Step 2
+  fingerprint: Uint8Array;
+  fileName: string;
+  wrappedKey: bigint;
+  // Chunk i uses this IV with i added to its last four bytes
+  iv: Uint8Array;
+}
+
+// Called after every chunk with the bytes processed so far
+export type ProgressCallback = (done: number, total: number) => void;
+
+function chunkCount(fileSize: number, chunkBytes: number): number {
+  // An empty file still gets one (empty) chunk, so its tag is checked
+  return Math.max(1, Math.ceil(fileSize / chunkBytes));
+}
+
+function chunkIv(iv: Uint8Array, index: number): Uint8Array {
+  const chunk = iv.slice();
+  const view = new DataView(chunk.buffer);
+  view.setUint32(GCM_IV_BYTES - 4, (view.getUint32(GCM_IV_BYTES - 4) + index) >>> 0);
+  return chunk;
+}
+
+// Fixed fields, then the file name and wrapped key each behind a 2-byte length, then the IV
+function encodeHeader(header: ContainerHeader, k: number): Uint8Array {
+  const name = new TextEncoder().encode(header.fileName);
+  const fixed = new Uint8Array(FIXED_HEADER_BYTES);
+  const view = new DataView(fixed.buffer);
+  fixed.set(MAGIC);
+  view.setUint8(MAGIC.length, VERSION);
+  view.setUint8(MAGIC.length + 1, WRAP_MODES.indexOf(header.wrapMode) + 1);
+  view.setUint32(MAGIC.length + 2, header.chunkBytes);
+  view.setBigUint64(MAGIC.length + 6, BigInt(header.fileSize));
+  fixed.set(header.fingerprint, MAGIC.length + 14);
+  const length = (value: number) => Uint8Array.of(value >>> 8, value & 0xff);
+  return concatBytes(fixed, length(name.length), name, length(k), bigIntToBytes(header.wrappedKey, k), header.iv);
+}
+
+// True if the bytes start with the container magic, so a dropped file can be routed to decryption
+export async function isContainer(file: Blob): Promise<boolean> {
+  const start = new Uint8Array(await file.slice(0, MAGIC.length).arrayBuffer());
+  return bytesEqual(start, MAGIC);
+}
+
+export async function encryptFile(file: File, key: { n: bigint; e: bigint }, onProgress: ProgressCallback): Promise<{
+  container: Blob;
+  header: ContainerHeader;
+  steps: string[];
+}> {
+  const k = byteLength(key.n);
+  const fingerprint = await keyFingerprint(key);
+  const { aesKey, rawKey } = await generateAesKey();
+  const { wrapMode, wrappedKey, steps: wrapSteps } = await wrapAesKey(rawKey, key.e, key.n);
+  const header: ContainerHeader = {
+    wrapMode,
+    chunkBytes: CHUNK_BYTES,
+    fileSize: file.size,
+    fingerprint: fingerprint.digest,
+    fileName: file.name,
+    wrappedKey,
+    iv: crypto.getRandomValues(new Uint8Array(GCM_IV_BYTES)),
+  };
+  const headerBytes = encodeHeader(header, k);
+  const chunks = chunkCount(file.size, CHUNK_BYTES);
+
+  const parts: BlobPart[] = [headerBytes];
+  onProgress(0, file.size);
+  for (let index = 0; index < chunks; index++) {
+    const start = index * CHUNK_BYTES;
+    const end = Math.min(start + CHUNK_BYTES, file.size);
+    const plaintext = await file.slice(start, end).arrayBuffer();
+    // The header is authenticated with every chunk, so its name, size and key cannot be swapped
+    parts.push(await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: chunkIv(header.iv, index), additionalData: headerBytes },
+      aesKey,
+      plaintext
+    ));
+    onProgress(end, file.size);
+  }
+  const container = new Blob(parts, { type: 'application/octet-stream' });
+
+  return {
+    container,
+    header,
+    steps: [
+      `📄 Read "${file.name}": ${file.size} bytes, never leaving the browser`,
+      `🎲 crypto.subtle generates a random ${AES_KEY_BYTES * 8}-bit AES key: ${bytesToHex(rawKey)}`,
+      ...wrapSteps,
+      `🎲 A random ${GCM_IV_BYTES * 8}-bit base IV: ${bytesToHex(header.iv)}`,
+      `⚡ AES-GCM encrypts ${chunks} chunk(s) of up to ${CHUNK_BYTES} bytes, each with its own IV and a ${GCM_TAG_BYTES}-byte tag`,
+      `🔎 The header names the recipient by key fingerprint SHA256:${bytesToBase64(fingerprint.digest)}`,
+      `📦 Container: ${headerBytes.length}-byte header + ${container.size - headerBytes.length} bytes of encrypted chunks = ${container.size} bytes`,
+    ],
+  };
+}
+
+// Read and check the header, reporting the byte offset of anything that does not fit
+export async function readContainerHeader(file: Blob): Promise<{ header: ContainerHeader; headerBytes: Uint8Array }> {
+  const fixed = new Uint8Array(await file.slice(0, FIXED_HEADER_BYTES + 2).arrayBuffer());
+  if (fixed.length < MAGIC.length || !bytesEqual(fixed.subarray(0, MAGIC.length), MAGIC)) {
+    throw new FileContainerError(`This is not a ${CONTAINER_EXTENSION} container; drop any other file to encrypt it instead`);
+  }
+  if (fixed.length < FIXED_HEADER_BYTES + 2) {
+    throw new FileContainerError(`The file ends at byte ${fixed.length}, inside the ${FIXED_HEADER_BYTES}-byte fixed header`);
+  }
+  const view = new DataView(fixed.buffer);
+  const version = view.getUint8(MAGIC.length);
+  if (version !== VERSION) throw new FileContainerError(`Byte ${MAGIC.length}: container version ${version} is not supported`);
+  const wrapMode = WRAP_MODES[view.getUint8(MAGIC.length + 1) - 1];
+  if (!wrapMode) throw new FileContainerError(`Byte ${MAGIC.length + 1}: unknown key wrap mode ${view.getUint8(MAGIC.length + 1)}`);
+  const chunkBytes = view.getUint32(MAGIC.length + 2);
+  if (chunkBytes === 0) throw new FileContainerError(`Byte ${MAGIC.length + 2}: the chunk size is zero`);
+  const fileSize = view.getBigUint64(MAGIC.length + 6);
+  if (fileSize > BigInt(Number.MAX_SAFE_INTEGER)) throw new FileContainerError(`Byte ${MAGIC.length + 6}: the file size is too large`);
+
+  const nameLength = view.getUint16(FIXED_HEADER_BYTES);
+  const keyLengthOffset = FIXED_HEADER_BYTES + 2 + nameLength;
+  const variable = new Uint8Array(await file.slice(FIXED_HEADER_BYTES + 2, keyLengthOffset + 2).arrayBuffer());
+  if (variable.length < nameLength + 2) {
+    throw new FileContainerError(`The file name at byte ${FIXED_HEADER_BYTES + 2} declares ${nameLength} bytes but the header is cut off`);
+  }
+  const keyLength = (variable[nameLength] << 8) | variable[nameLength + 1];
+  const headerLength = keyLengthOffset + 2 + keyLength + GCM_IV_BYTES;
+  const headerBytes = new Uint8Array(await file.slice(0, headerLength).arrayBuffer());
+  if (headerBytes.length < headerLength) {
+    throw new FileContainerError(`The wrapped key at byte ${keyLengthOffset + 2} and IV need ${keyLength + GCM_IV_BYTES} bytes but the header is cut off`);
+  }
+
+  return {
+    header: {
+      wrapMode,
+      chunkBytes,
+      fileSize: Number(fileSize),
+      fingerprint: fixed.slice(MAGIC.length + 14, FIXED_HEADER_BYTES),
+      fileName: new TextDecoder().decode(variable.subarray(0, nameLength)),
+      wrappedKey: bytesToBigInt(headerBytes.subarray(keyLengthOffset + 2, keyLengthOffset + 2 + keyLength)),
+      iv: headerBytes.slice(headerLength - GCM_IV_BYTES),
+    },
+    headerBytes,
+  };
+}
+
+export async function decryptFile(file: Blob, key: { n: bigint; e: bigint; d: bigint }, onProgress: ProgressCallback): Promise<{
+  plaintext: Blob;
+  header: ContainerHeader;
+  steps: string[];
+}> {
+  const { header, headerBytes } = await readContainerHeader(file);
+  const fingerprint = await keyFingerprint(key);
+  if (!bytesEqual(header.fingerprint, fingerprint.digest)) {
+    throw new FileContainerError(
+      `The container was encrypted for key SHA256:${bytesToBase64(header.fingerprint)}, ` +
+      `but the current key is SHA256:${fingerprint.base64}; load the recipient's private key first`
+    );
+  }
+  const chunks = chunkCount(header.fileSize, header.chunkBytes);
+  const expectedSize = headerBytes.length + header.fileSize + chunks * GCM_TAG_BYTES;
+  if (file.size !== expectedSize) {
+    throw new FileContainerError(
+      `The container is ${file.size} bytes but its header describes ${expectedSize}; it was ${file.size < expectedSize ? 'cut off' : 'extended'}`
+    );
+  }
+
+  let aesKey: CryptoKey;
+  let unwrapSteps: string[];
+  try {
+    ({ aesKey, steps: unwrapSteps } = await unwrapAesKey(header.wrappedKey, header.wrapMode, key.d, key.n));
+  } catch (error) {
+    if (!(error instanceof HybridError)) throw error;
+    throw new FileContainerError(error.message);
+  }
+
+  const parts: BlobPart[] = [];
+  let offset = headerBytes.length;
+  onProgress(0, header.fileSize);
+  for (let index = 0; index < chunks; index++) {
+    const plainBytes = Math.min(header.chunkBytes, header.fileSize - index * header.chunkBytes);
+    const ciphertext = await file.slice(offset, offset + plainBytes + GCM_TAG_BYTES).arrayBuffer();
+    try {
+      parts.push(await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: chunkIv(header.iv, index), additionalData: headerBytes },
+        aesKey,
+        ciphertext
+      ));
+    } catch {
+      throw new FileContainerError(
+        `Chunk ${index + 1} of ${chunks} (byte ${offset}) failed the AES-GCM tag check: the container or its header was changed`
+      );
+    }
+    offset += plainBytes + GCM_TAG_BYTES;
+    onProgress(index * header.chunkBytes + plainBytes, header.fileSize);
+  }
+
+  return {
+    plaintext: new Blob(parts, { type: 'application/octet-stream' }),
+    header,
+    steps: [
+      `🔎 The header's key fingerprint SHA256:${fingerprint.base64} matches the current key`,
+      `📦 Header: ${headerBytes.length} bytes for "${header.fileName}" (${header.fileSize} bytes), key wrapped with ${header.wrapMode === 'oaep' ? 'OAEP' : 'PKCS#1 v1.5'}`,
+      ...unwrapSteps,
+      `✓ AES-GCM verifies and decrypts ${chunks} chunk(s), each tag also covering the header`,
+      `📄 Recovered "${header.fileName}": ${header.fileSize} bytes`,
+    ],
+  };
+}
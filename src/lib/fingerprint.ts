@@ -0,0 +1,70 @@
+/**
+ * RSA Encryption Learning Demo - Key Fingerprints
+ * A short hash that identifies a public key, and OpenSSH's "drunken bishop" picture of it
+ */
+
+import { bytesToBase64, bytesToHex, sha256 } from './bytes';
+import { encodeDer } from './asn1';
+import { subjectPublicKeyInfoAsn1 } from './key-formats';
+import { bitLength } from './rsa-utils';
+
+export interface KeyFingerprint {
+  // SHA-256 of the DER SubjectPublicKeyInfo, the same bytes `openssl pkey -pubout -outform DER` writes
+  digest: Uint8Array;
+  hex: string;
+  base64: string;
+  randomart: string;
+}
+
+const FIELD_WIDTH = 17;
+const FIELD_HEIGHT = 9;
+// Visit counts map to these characters; the last two mark where the bishop started and ended
+const RANDOMART_SYMBOLS = ' .o+=*BOX@%&#/^SE';
+
+// A "[text]" label centred in a border line the width of the field
+function borderLine(label: string): string {
+  const left = Math.floor((FIELD_WIDTH - label.length) / 2);
+  return `+${'-'.repeat(left)}${label}${'-'.repeat(FIELD_WIDTH - left - label.length)}+`;
+}
+
+// The drunken bishop walk from OpenSSH's sshkey_fingerprint_randomart(): each byte, read two bits at a time from the
+// low end, moves the bishop one diagonal step; walls stop it, and every square counts its visits
+export function randomart(digest: Uint8Array, title: string, hashName: string = 'SHA256'): string {
+  const field = Array.from({ length: FIELD_HEIGHT }, () => new Array<number>(FIELD_WIDTH).fill(0));
+  const end = RANDOMART_SYMBOLS.length - 1;
+  let x = Math.floor(FIELD_WIDTH / 2);
+  let y = Math.floor(FIELD_HEIGHT / 2);
+
+  for (const byte of digest) {
+    let input = byte;
+    for (let step = 0; step < 4; step++) {
+      x = Math.min(Math.max(x + (input & 0x1 ? 1 : -1), 0), FIELD_WIDTH - 1);
+      y = Math.min(Math.max(y + (input & 0x2 ? 1 : -1), 0), FIELD_HEIGHT - 1);
+      if (field[y][x] < end - 2) field[y][x]++;
+      input >>= 2;
+    }
+  }
+  field[Math.floor(FIELD_HEIGHT / 2)][Math.floor(FIELD_WIDTH / 2)] = end - 1;
+  field[y][x] = end;
+
+  return [
+    borderLine(`[${title}]`),
+    ...field.map(row => `|${row.map(count => RANDOMART_SYMBOLS[count]).join('')}|`),
+    borderLine(`[${hashName}]`),
+  ].join('\n');
+}
+
+export async function keyFingerprint(key: { n: bigint; e: bigint }): Promise<KeyFingerprint> {
+  const digest = await sha256(encodeDer(subjectPublicKeyInfoAsn1(key)));
+  return {
+    digest,
+    hex: bytesToHex(digest, ':'),
+    base64: bytesToBase64(digest),
+    randomart: randomart(digest, `RSA ${bitLength(key.n)}`),
+  };
+}
+
+// Explanatory text for the top of exported PEM files; RFC 7468 §5.2 lets readers skip anything before "-----BEGIN"
+export function fingerprintText(fingerprint: KeyFingerprint): string {
+  return `SHA-256 fingerprint of the public key (SubjectPublicKeyInfo DER):\n${fingerprint.hex}\n${fingerprint.randomart}\n`;
+}
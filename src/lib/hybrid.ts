@@ -0,0 +1,164 @@
+/**
+ * RSA Encryption Learning Demo - Hybrid Encryption
+ * Encrypt the data with a fresh AES-GCM key and only that key with RSA, the way TLS and PGP use RSA
+ */
+
+import { bigIntToBytes, byteLength, bytesToBigInt, bytesToHex } from './bytes';
+import {
+  OAEP_OVERHEAD,
+  PKCS1_V15_OVERHEAD,
+  PaddingError,
+  oaepDecode,
+  oaepEncode,
+  pkcs1v15Pad,
+  pkcs1v15Unpad,
+} from './rsa-padding';
+import { bitLength, traceModularExponentiation, type ModularExponentiationTrace } from './rsa-utils';
+
+export class HybridError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HybridError';
+  }
+}
+
+export const AES_KEY_BYTES = 32;
+export const GCM_IV_BYTES = 12;
+export const GCM_TAG_BYTES = 16;
+
+// How the AES key is padded before RSA; OAEP when n is large enough, PKCS#1 v1.5 for smaller demo keys
+export type KeyWrapMode = 'oaep' | 'pkcs1-v1_5';
+
+export interface HybridCiphertext {
+  wrapMode: KeyWrapMode;
+  // The AES key encrypted with RSA, a single value below n
+  wrappedKey: bigint;
+  iv: Uint8Array;
+  // AES-GCM output: the encrypted data followed by the 16-byte authentication tag
+  ciphertext: Uint8Array;
+}
+
+export function chooseKeyWrap(n: bigint): KeyWrapMode {
+  const k = byteLength(n);
+  if (k >= AES_KEY_BYTES + OAEP_OVERHEAD) return 'oaep';
+  if (k >= AES_KEY_BYTES + PKCS1_V15_OVERHEAD) return 'pkcs1-v1_5';
+  throw new HybridError(
+    `Wrapping a ${AES_KEY_BYTES * 8}-bit AES key needs n of at least ${(AES_KEY_BYTES + PKCS1_V15_OVERHEAD) * 8} bits ` +
+    `(${(AES_KEY_BYTES + OAEP_OVERHEAD) * 8} for OAEP). This n has ${bitLength(n)}; generate primes by bit length.`
+  );
+}
+
+// Long values are shortened in the steps; the result holds every byte
+function preview(bytes: Uint8Array): string {
+  return bytes.length > 32 ? `${bytesToHex(bytes.subarray(0, 32))} … (${bytes.length} bytes)` : bytesToHex(bytes);
+}
+
+// A fresh AES-256-GCM key, extractable so its raw bytes can be wrapped
+export async function generateAesKey(): Promise<{ aesKey: CryptoKey; rawKey: Uint8Array }> {
+  const aesKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: AES_KEY_BYTES * 8 }, true, ['encrypt']);
+  return { aesKey, rawKey: new Uint8Array(await crypto.subtle.exportKey('raw', aesKey)) };
+}
+
+// Pad the raw AES key and encrypt it with e; the result is one RSA value below n
+export async function wrapAesKey(rawKey: Uint8Array, e: bigint, n: bigint): Promise<{
+  wrapMode: KeyWrapMode;
+  wrappedKey: bigint;
+  steps: string[];
+  trace: ModularExponentiationTrace;
+}> {
+  const wrapMode = chooseKeyWrap(n);
+  const k = byteLength(n);
+  const em = wrapMode === 'oaep' ? (await oaepEncode(rawKey, k)).em : pkcs1v15Pad(rawKey, k);
+  const trace = traceModularExponentiation(bytesToBigInt(em), e, n);
+  return {
+    wrapMode,
+    wrappedKey: trace.result,
+    steps: [
+      wrapMode === 'oaep'
+        ? `🧱 Pad the ${AES_KEY_BYTES}-byte key with RSA-OAEP into k = ${k} bytes: ${preview(em)}`
+        : `🧱 n is too small for OAEP (${AES_KEY_BYTES + OAEP_OVERHEAD} bytes needed), so pad the key with PKCS#1 v1.5 into k = ${k} bytes: ${preview(em)}`,
+      `🔒 Wrap the key with RSA: m^${e} mod n = ${trace.result}`,
+    ],
+    trace,
+  };
+}
+
+// Decrypt the wrapped key with d and remove its padding, giving an AES key ready to decrypt
+export async function unwrapAesKey(wrappedKey: bigint, wrapMode: KeyWrapMode, d: bigint, n: bigint): Promise<{
+  aesKey: CryptoKey;
+  steps: string[];
+  trace: ModularExponentiationTrace;
+}> {
+  const k = byteLength(n);
+  if (wrappedKey >= n) throw new HybridError('The wrapped key is not smaller than n, so it was made for a different key');
+
+  const trace = traceModularExponentiation(wrappedKey, d, n);
+  const em = bigIntToBytes(trace.result, k);
+  let rawKey: Uint8Array;
+  try {
+    rawKey = wrapMode === 'oaep' ? (await oaepDecode(em)).message : pkcs1v15Unpad(em);
+  } catch (error) {
+    if (!(error instanceof PaddingError)) throw error;
+    throw new HybridError(`The wrapped key does not unpad (${error.message}); it was made for a different key`);
+  }
+  if (rawKey.length !== AES_KEY_BYTES) {
+    throw new HybridError(`The unwrapped key is ${rawKey.length} bytes, expected ${AES_KEY_BYTES}`);
+  }
+
+  return {
+    aesKey: await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['decrypt']),
+    steps: [
+      `🔓 Unwrap the key with RSA: c^${d} mod n = ${trace.result}`,
+      `🧱 Remove the ${wrapMode === 'oaep' ? 'OAEP' : 'PKCS#1 v1.5'} padding to recover the AES key: ${bytesToHex(rawKey)}`,
+    ],
+    trace,
+  };
+}
+
+export async function hybridEncrypt(plaintext: Uint8Array, e: bigint, n: bigint): Promise<{
+  hybrid: HybridCiphertext;
+  steps: string[];
+  traces: ModularExponentiationTrace[];
+}> {
+  const steps: string[] = [];
+  const k = byteLength(n);
+  // Check the key size before doing any AES work
+  chooseKeyWrap(n);
+
+  const { aesKey, rawKey } = await generateAesKey();
+  steps.push(`🎲 crypto.subtle generates a random ${AES_KEY_BYTES * 8}-bit AES key: ${bytesToHex(rawKey)}`);
+  const iv = crypto.getRandomValues(new Uint8Array(GCM_IV_BYTES));
+  steps.push(`🎲 and a random ${GCM_IV_BYTES * 8}-bit IV (nonce): ${bytesToHex(iv)}`);
+
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, aesKey, plaintext));
+  steps.push(`⚡ AES-GCM encrypts all ${plaintext.length} bytes: ${preview(ciphertext.subarray(0, plaintext.length))}`);
+  steps.push(`🏷️ plus a ${GCM_TAG_BYTES}-byte authentication tag that detects any change: ${bytesToHex(ciphertext.subarray(plaintext.length))}`);
+
+  const { wrapMode, wrappedKey, steps: wrapSteps, trace } = await wrapAesKey(rawKey, e, n);
+  steps.push(...wrapSteps);
+  steps.push(
+    `📨 Send ${k} bytes of wrapped key + ${GCM_IV_BYTES} bytes of IV + ${ciphertext.length} bytes of AES-GCM output. ` +
+    `RSA ran once, however long the message is.`
+  );
+
+  return { hybrid: { wrapMode, wrappedKey, iv, ciphertext }, steps, traces: [trace] };
+}
+
+// Unwrap the AES key with d, then let AES-GCM check the tag and decrypt
+export async function hybridDecrypt(hybrid: HybridCiphertext, d: bigint, n: bigint): Promise<{
+  plaintext: Uint8Array;
+  steps: string[];
+  traces: ModularExponentiationTrace[];
+}> {
+  const { aesKey, steps, trace } = await unwrapAesKey(hybrid.wrappedKey, hybrid.wrapMode, d, n);
+  let plaintext: Uint8Array;
+  try {
+    plaintext = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: hybrid.iv }, aesKey, hybrid.ciphertext));
+  } catch {
+    throw new HybridError('AES-GCM rejected the authentication tag: the ciphertext, IV or tag was changed');
+  }
+  steps.push(`✓ AES-GCM verifies the ${GCM_TAG_BYTES}-byte tag with IV ${bytesToHex(hybrid.iv)}`);
+  steps.push(`⚡ and decrypts ${hybrid.ciphertext.length - GCM_TAG_BYTES} bytes: ${preview(plaintext)}`);
+
+  return { plaintext, steps, traces: [trace] };
+}
@@ -0,0 +1,129 @@
+/**
+ * RSA Encryption Learning Demo - JSON Web Keys
+ * Convert keys to and from JWK (RFC 7517, RFC 7518 §6.3) and hand them to the browser's crypto.subtle
+ */
+
+import { base64ToBytes, bigIntToBytes, bytesToBase64Url, bytesToBigInt } from './bytes';
+import {
+  createPartialKey,
+  keyPairFromComponents,
+  type OtherPrimeInfo,
+  type RSAKeyPair,
+  type RSAPartialKey,
+} from './rsa-utils';
+
+export class JWKError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JWKError';
+  }
+}
+
+// JWK integers are unsigned big-endian bytes in base64url without padding
+const encode = (value: bigint) => bytesToBase64Url(bigIntToBytes(value));
+
+// Private members are included whenever the key has them; multi-prime keys list r₃, r₄, … under "oth"
+export function toJWK(key: RSAKeyPair | RSAPartialKey): JsonWebKey {
+  const jwk: JsonWebKey = { kty: 'RSA', n: encode(key.n), e: encode(key.e) };
+  if (key.d === null) return jwk;
+  if (!('p' in key)) return { ...jwk, d: encode(key.d) };
+
+  return {
+    ...jwk,
+    d: encode(key.d),
+    p: encode(key.p),
+    q: encode(key.q),
+    dp: encode(key.dP),
+    dq: encode(key.dQ),
+    qi: encode(key.qInv),
+    ...(key.otherPrimes.length > 0 && {
+      oth: key.otherPrimes.map(info => ({ r: encode(info.prime), d: encode(info.exponent), t: encode(info.coefficient) })),
+    }),
+  };
+}
+
+export function publicJWK(jwk: JsonWebKey): JsonWebKey {
+  return { kty: jwk.kty, n: jwk.n, e: jwk.e };
+}
+
+// Decode one base64url member, naming it in the error
+function member(source: Record<string, unknown>, name: string, path: string = name): bigint {
+  const value = source[name];
+  if (typeof value !== 'string') throw new JWKError(`"${path}" is missing or not a string`);
+  if (/[+/=]/.test(value)) throw new JWKError(`"${path}" must use unpadded base64url (- and _ instead of + and /)`);
+  try {
+    return bytesToBigInt(base64ToBytes(value));
+  } catch (error) {
+    if (!(error instanceof RangeError)) throw error;
+    throw new JWKError(`"${path}" is not valid base64url`);
+  }
+}
+
+// Parse JWK text into a full key pair when p and q are present, otherwise a public (or n, e, d) key
+export function importJWK(text: string): RSAKeyPair | RSAPartialKey {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new JWKError(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new JWKError('A JWK must be a JSON object');
+  }
+  const jwk = parsed as Record<string, unknown>;
+  if ('keys' in jwk) throw new JWKError('This is a JWK Set; paste a single key from its "keys" array');
+  if (jwk.kty !== 'RSA') throw new JWKError(`"kty" is ${JSON.stringify(jwk.kty)}, expected "RSA"`);
+
+  const n = member(jwk, 'n');
+  const e = member(jwk, 'e');
+  if (n < 6n) throw new JWKError(`"n" = ${n} is too small to be an RSA modulus`);
+  if (e <= 1n || e >= n) throw new JWKError(`"e" = ${e} must satisfy 1 < e < n`);
+  const steps = [`📥 Imported a JSON Web Key with ${Object.keys(jwk).filter(name => name !== 'kty').join(', ')}`];
+  if (!('p' in jwk)) {
+    const d = 'd' in jwk ? member(jwk, 'd') : null;
+    if (d !== null && (d <= 0n || d >= n)) throw new JWKError(`"d" = ${d} must satisfy 0 < d < n`);
+    const key = createPartialKey(n, e, d);
+    key.steps.unshift(...steps);
+    return key;
+  }
+
+  // RFC 7518 §6.3.2: once p is given, the other CRT members must be too
+  const [d, p, q, dP, dQ, qInv] = ['d', 'p', 'q', 'dp', 'dq', 'qi'].map(name => member(jwk, name));
+  const oth = jwk.oth ?? [];
+  if (!Array.isArray(oth)) throw new JWKError('"oth" must be an array');
+  const otherPrimes: OtherPrimeInfo[] = oth.map((info, index) => {
+    if (typeof info !== 'object' || info === null) throw new JWKError(`"oth[${index}]" must be an object`);
+    return {
+      prime: member(info, 'r', `oth[${index}].r`),
+      exponent: member(info, 'd', `oth[${index}].d`),
+      coefficient: member(info, 't', `oth[${index}].t`),
+    };
+  });
+  if ([p, q, ...otherPrimes.map(info => info.prime)].some(prime => prime < 2n)) {
+    throw new JWKError('Every prime factor must be at least 2');
+  }
+  return keyPairFromComponents({ n, e, d, p, q, dP, dQ, qInv, otherPrimes }, steps);
+}
+
+// Load the key pair into crypto.subtle for one algorithm; browsers reject what they consider weak
+export async function importIntoWebCrypto(
+  keyPair: RSAKeyPair,
+  algorithm: RsaHashedImportParams,
+  usages: { privateKey: KeyUsage[]; publicKey: KeyUsage[] }
+): Promise<{ privateKey: CryptoKey; publicKey: CryptoKey }> {
+  if (keyPair.otherPrimes.length > 0) {
+    throw new JWKError('WebCrypto only accepts two-prime RSA keys; regenerate without extra primes to cross-check.');
+  }
+  const jwk = toJWK(keyPair);
+  try {
+    return {
+      privateKey: await crypto.subtle.importKey('jwk', jwk, algorithm, true, usages.privateKey),
+      publicKey: await crypto.subtle.importKey('jwk', publicJWK(jwk), algorithm, true, usages.publicKey),
+    };
+  } catch (error) {
+    throw new JWKError(
+      `WebCrypto rejected this key (${error instanceof Error ? error.message : String(error)}). ` +
+      `Browsers usually require n of at least 512 bits and e = 65537.`
+    );
+  }
+}
@@ -0,0 +1,334 @@
+/**
+ * RSA Encryption Learning Demo - Key Formats
+ * Export and import keys as PKCS#1, SPKI and PKCS#8 DER structures with PEM armor (RFC 8017, RFC 5280, RFC 5208)
+ */
+
+import {
+  ASN1_TAGS,
+  Asn1Error,
+  OID_NAMES,
+  annotateDer,
+  asn1BitString,
+  asn1Integer,
+  asn1Null,
+  asn1ObjectIdentifier,
+  asn1OctetString,
+  asn1Sequence,
+  derChildren,
+  elementField,
+  encodeDer,
+  expectTag,
+  parseDer,
+  readInteger,
+  readObjectIdentifier,
+  type Asn1Node,
+  type DerElement,
+  type DerField,
+} from './asn1';
+import { base64ToBytes, bytesToBase64 } from './bytes';
+import {
+  createPartialKey,
+  keyPairFromComponents,
+  type OtherPrimeInfo,
+  type RSAKeyPair,
+  type RSAPartialKey,
+} from './rsa-utils';
+
+// Input that is not a key we can read; DER-level problems are reported as Asn1Error instead
+export class KeyFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyFormatError';
+  }
+}
+
+export const RSA_ENCRYPTION_OID = '1.2.840.113549.1.1.1';
+
+export type KeyExportFormat = 'pkcs1-public' | 'spki' | 'pkcs1-private' | 'pkcs8';
+
+export const KEY_EXPORT_FORMATS: Record<KeyExportFormat, {
+  label: string;
+  pemLabel: string;
+  fileName: string;
+  isPrivate: boolean;
+}> = {
+  'pkcs1-public': { label: 'PKCS#1 RSAPublicKey', pemLabel: 'RSA PUBLIC KEY', fileName: 'public-pkcs1', isPrivate: false },
+  'spki': { label: 'SubjectPublicKeyInfo (SPKI)', pemLabel: 'PUBLIC KEY', fileName: 'public', isPrivate: false },
+  'pkcs1-private': { label: 'PKCS#1 RSAPrivateKey', pemLabel: 'RSA PRIVATE KEY', fileName: 'private-pkcs1', isPrivate: true },
+  'pkcs8': { label: 'PKCS#8 PrivateKeyInfo', pemLabel: 'PRIVATE KEY', fileName: 'private', isPrivate: true },
+};
+
+// AlgorithmIdentifier { rsaEncryption, NULL parameters }
+function rsaAlgorithmIdentifier(): Asn1Node {
+  return asn1Sequence('algorithm', [
+    asn1ObjectIdentifier('algorithm', RSA_ENCRYPTION_OID),
+    asn1Null('parameters'),
+  ]);
+}
+
+// RSAPublicKey ::= SEQUENCE { modulus INTEGER, publicExponent INTEGER }
+export function rsaPublicKeyAsn1(key: { n: bigint; e: bigint }): Asn1Node {
+  return asn1Sequence('RSAPublicKey', [
+    asn1Integer('modulus', key.n),
+    asn1Integer('publicExponent', key.e),
+  ]);
+}
+
+// SubjectPublicKeyInfo ::= SEQUENCE { algorithm AlgorithmIdentifier, subjectPublicKey BIT STRING }
+export function subjectPublicKeyInfoAsn1(key: { n: bigint; e: bigint }): Asn1Node {
+  return asn1Sequence('SubjectPublicKeyInfo', [
+    rsaAlgorithmIdentifier(),
+    asn1BitString('subjectPublicKey', [rsaPublicKeyAsn1(key)]),
+  ]);
+}
+
+// RSAPrivateKey from RFC 8017 Appendix A.1.2; version 1 adds otherPrimeInfos for multi-prime keys
+export function rsaPrivateKeyAsn1(keyPair: RSAKeyPair): Asn1Node {
+  const multiPrime = keyPair.otherPrimes.length > 0;
+  return asn1Sequence('RSAPrivateKey', [
+    asn1Integer('version', multiPrime ? 1n : 0n),
+    asn1Integer('modulus', keyPair.n),
+    asn1Integer('publicExponent', keyPair.e),
+    asn1Integer('privateExponent', keyPair.d),
+    asn1Integer('prime1', keyPair.p),
+    asn1Integer('prime2', keyPair.q),
+    asn1Integer('exponent1', keyPair.dP),
+    asn1Integer('exponent2', keyPair.dQ),
+    asn1Integer('coefficient', keyPair.qInv),
+    ...(multiPrime
+      ? [asn1Sequence('otherPrimeInfos', keyPair.otherPrimes.map(info => asn1Sequence('OtherPrimeInfo', [
+          asn1Integer('prime', info.prime),
+          asn1Integer('exponent', info.exponent),
+          asn1Integer('coefficient', info.coefficient),
+        ])))]
+      : []),
+  ]);
+}
+
+// PrivateKeyInfo ::= SEQUENCE { version INTEGER, privateKeyAlgorithm AlgorithmIdentifier, privateKey OCTET STRING }
+export function privateKeyInfoAsn1(keyPair: RSAKeyPair): Asn1Node {
+  return asn1Sequence('PrivateKeyInfo', [
+    asn1Integer('version', 0n),
+    rsaAlgorithmIdentifier(),
+    asn1OctetString('privateKey', [rsaPrivateKeyAsn1(keyPair)]),
+  ]);
+}
+
+// RFC 7468 textual encoding: base64 in 64-character lines between BEGIN and END markers
+export function pemArmor(label: string, der: Uint8Array): string {
+  const lines = bytesToBase64(der).match(/.{1,64}/g) ?? [];
+  return [`-----BEGIN ${label}-----`, ...lines, `-----END ${label}-----`, ''].join('\n');
+}
+
+export interface ExportedKey {
+  format: KeyExportFormat;
+  der: Uint8Array;
+  pem: string;
+  fields: DerField[];
+}
+
+// Private formats need the full key pair; public formats only n and e
+export function exportKey(key: RSAKeyPair | { n: bigint; e: bigint }, format: KeyExportFormat): ExportedKey {
+  let node: Asn1Node;
+  if (KEY_EXPORT_FORMATS[format].isPrivate) {
+    if (!('p' in key)) throw new Error(`${KEY_EXPORT_FORMATS[format].label} needs p, q and d`);
+    node = format === 'pkcs8' ? privateKeyInfoAsn1(key) : rsaPrivateKeyAsn1(key);
+  } else {
+    node = format === 'spki' ? subjectPublicKeyInfoAsn1(key) : rsaPublicKeyAsn1(key);
+  }
+  const der = encodeDer(node);
+  return { format, der, pem: pemArmor(KEY_EXPORT_FORMATS[format].pemLabel, der), fields: annotateDer(node) };
+}
+
+const PEM_LABEL_FORMATS: Record<string, KeyExportFormat> = Object.fromEntries(
+  (Object.keys(KEY_EXPORT_FORMATS) as KeyExportFormat[]).map(format => [KEY_EXPORT_FORMATS[format].pemLabel, format])
+);
+
+// Strip PEM armor, reporting the line and column of anything out of place
+export function decodePem(text: string): { label: string; der: Uint8Array } {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const begin = lines.findIndex(line => line.startsWith('-----BEGIN '));
+  if (begin === -1) throw new KeyFormatError('No "-----BEGIN …-----" line found');
+  const match = /^-----BEGIN ([A-Z0-9 ]+)-----$/.exec(lines[begin]);
+  if (!match) throw new KeyFormatError(`Line ${begin + 1}: malformed BEGIN line "${lines[begin]}"`);
+  const label = match[1];
+  
+  const endLine = `-----END ${label}-----`;
+  const end = lines.findIndex((line, index) => index > begin && line.startsWith('-----END'));
+  if (end === -1) throw new KeyFormatError(`No "${endLine}" line after line ${begin + 1}`);
+  if (lines[end] !== endLine) throw new KeyFormatError(`Line ${end + 1}: expected "${endLine}", found "${lines[end]}"`);
+  
+  const body: string[] = [];
+  for (let index = begin + 1; index < end; index++) {
+    const line = lines[index];
+    if (line.includes(':')) {
+      throw new KeyFormatError(`Line ${index + 1}: PEM headers such as "${line}" mean the key is encrypted, which is not supported`);
+    }
+    const bad = line.search(/[^A-Za-z0-9+/=]/);
+    if (bad !== -1) {
+      throw new KeyFormatError(`Line ${index + 1}, column ${bad + 1}: "${line[bad]}" is not a base64 character`);
+    }
+    body.push(line);
+  }
+  try {
+    return { label, der: base64ToBytes(body.join('')) };
+  } catch (error) {
+    if (!(error instanceof RangeError)) throw error;
+    throw new KeyFormatError(`Lines ${begin + 2}–${end}: the base64 body has an invalid length or misplaced "=" padding`);
+  }
+}
+
+function childrenOf(element: DerElement, label: string, expected: number | [number, number]): DerElement[] {
+  const children = derChildren(element);
+  const [min, max] = typeof expected === 'number' ? [expected, expected] : expected;
+  if (children.length < min || children.length > max) {
+    const count = min === max ? `${min}` : `${min} to ${max}`;
+    throw new Asn1Error(`${label} should hold ${count} fields, found ${children.length}`, element.offset);
+  }
+  return children;
+}
+
+// Read an INTEGER and record it as a field
+function integerField(element: DerElement, label: string, depth: number, fields: DerField[]): bigint {
+  const value = readInteger(element, label);
+  fields.push(elementField(element, label, depth, value.toString()));
+  return value;
+}
+
+function readAlgorithmIdentifier(element: DerElement, depth: number, fields: DerField[]) {
+  expectTag(element, ASN1_TAGS.SEQUENCE, 'algorithm');
+  fields.push(elementField(element, 'algorithm', depth));
+  const [oid, parameters] = childrenOf(element, 'AlgorithmIdentifier', [1, 2]);
+  const algorithm = readObjectIdentifier(oid, 'algorithm');
+  if (algorithm !== RSA_ENCRYPTION_OID) {
+    throw new Asn1Error(`Algorithm ${algorithm} is not rsaEncryption (${RSA_ENCRYPTION_OID})`, oid.offset);
+  }
+  fields.push(elementField(oid, 'algorithm', depth + 1, `${algorithm} (${OID_NAMES[algorithm]})`));
+  if (parameters) {
+    expectTag(parameters, ASN1_TAGS.NULL, 'parameters');
+    fields.push(elementField(parameters, 'parameters', depth + 1, 'NULL'));
+  }
+}
+
+function readRSAPublicKey(element: DerElement, depth: number, fields: DerField[]): { n: bigint; e: bigint } {
+  expectTag(element, ASN1_TAGS.SEQUENCE, 'RSAPublicKey');
+  fields.push(elementField(element, 'RSAPublicKey', depth));
+  const [modulus, exponent] = childrenOf(element, 'RSAPublicKey', 2);
+  const n = integerField(modulus, 'modulus', depth + 1, fields);
+  const e = integerField(exponent, 'publicExponent', depth + 1, fields);
+  if (n < 6n) throw new Asn1Error(`modulus ${n} is too small to be an RSA modulus`, modulus.offset);
+  if (e <= 1n || e >= n) throw new Asn1Error(`publicExponent ${e} must satisfy 1 < e < n`, exponent.offset);
+  return { n, e };
+}
+
+function readSubjectPublicKeyInfo(element: DerElement, fields: DerField[]): { n: bigint; e: bigint } {
+  expectTag(element, ASN1_TAGS.SEQUENCE, 'SubjectPublicKeyInfo');
+  fields.push(elementField(element, 'SubjectPublicKeyInfo', 0));
+  const [algorithm, subjectPublicKey] = childrenOf(element, 'SubjectPublicKeyInfo', 2);
+  readAlgorithmIdentifier(algorithm, 1, fields);
+  expectTag(subjectPublicKey, ASN1_TAGS.BIT_STRING, 'subjectPublicKey');
+  fields.push(elementField(subjectPublicKey, 'subjectPublicKey', 1));
+  const [publicKey] = childrenOf(subjectPublicKey, 'subjectPublicKey', 1);
+  return readRSAPublicKey(publicKey, 2, fields);
+}
+
+function readRSAPrivateKey(element: DerElement, depth: number, fields: DerField[], steps: string[]): RSAKeyPair {
+  expectTag(element, ASN1_TAGS.SEQUENCE, 'RSAPrivateKey');
+  fields.push(elementField(element, 'RSAPrivateKey', depth));
+  const children = childrenOf(element, 'RSAPrivateKey', [9, 10]);
+  const version = integerField(children[0], 'version', depth + 1, fields);
+  if (version > 1n || (version === 1n) !== (children.length === 10)) {
+    throw new Asn1Error(`version ${version} does not match ${children.length - 1} key fields (0 = two-prime, 1 = multi-prime)`, children[0].offset);
+  }
+  
+  const names = ['modulus', 'publicExponent', 'privateExponent', 'prime1', 'prime2', 'exponent1', 'exponent2', 'coefficient'];
+  const [n, e, d, p, q, dP, dQ, qInv] = names.map((name, index) => integerField(children[index + 1], name, depth + 1, fields));
+  [p, q].forEach((prime, index) => {
+    if (prime < 2n) throw new Asn1Error(`${names[index + 3]} = ${prime} cannot be a prime factor`, children[index + 4].offset);
+  });
+  
+  const otherPrimes: OtherPrimeInfo[] = [];
+  if (children.length === 10) {
+    expectTag(children[9], ASN1_TAGS.SEQUENCE, 'otherPrimeInfos');
+    fields.push(elementField(children[9], 'otherPrimeInfos', depth + 1));
+    for (const info of derChildren(children[9])) {
+      expectTag(info, ASN1_TAGS.SEQUENCE, 'OtherPrimeInfo');
+      fields.push(elementField(info, 'OtherPrimeInfo', depth + 2));
+      const [prime, exponent, coefficient] = childrenOf(info, 'OtherPrimeInfo', 3)
+        .map((child, index) => integerField(child, ['prime', 'exponent', 'coefficient'][index], depth + 3, fields));
+      if (prime < 2n) throw new Asn1Error(`prime = ${prime} cannot be a prime factor`, info.offset);
+      otherPrimes.push({ prime, exponent, coefficient });
+    }
+  }
+  
+  return keyPairFromComponents({ n, e, d, p, q, dP, dQ, qInv, otherPrimes }, steps);
+}
+
+function readPrivateKeyInfo(element: DerElement, fields: DerField[], steps: string[]): RSAKeyPair {
+  expectTag(element, ASN1_TAGS.SEQUENCE, 'PrivateKeyInfo');
+  fields.push(elementField(element, 'PrivateKeyInfo', 0));
+  // Attributes and the public key of OneAsymmetricKey (RFC 5958) may follow; they are not needed here
+  const [version, algorithm, privateKey] = childrenOf(element, 'PrivateKeyInfo', [3, 5]);
+  integerField(version, 'version', 1, fields);
+  readAlgorithmIdentifier(algorithm, 1, fields);
+  expectTag(privateKey, ASN1_TAGS.OCTET_STRING, 'privateKey');
+  fields.push(elementField(privateKey, 'privateKey', 1));
+  const [rsaPrivateKey] = childrenOf(privateKey, 'privateKey', 1);
+  return readRSAPrivateKey(rsaPrivateKey, 2, fields, steps);
+}
+
+// Guess the structure of unlabelled DER from the tags of the outer SEQUENCE's fields
+function sniffFormat(root: DerElement): KeyExportFormat {
+  expectTag(root, ASN1_TAGS.SEQUENCE, 'the key');
+  const tags = derChildren(root).map(child => child.tag);
+  const { INTEGER, SEQUENCE, BIT_STRING, OCTET_STRING } = ASN1_TAGS;
+  if (tags.length === 2 && tags[0] === INTEGER && tags[1] === INTEGER) return 'pkcs1-public';
+  if (tags.length === 2 && tags[0] === SEQUENCE && tags[1] === BIT_STRING) return 'spki';
+  if (tags.length >= 3 && tags[0] === INTEGER && tags[1] === SEQUENCE && tags[2] === OCTET_STRING) return 'pkcs8';
+  if (tags.length >= 9 && tags[0] === INTEGER) return 'pkcs1-private';
+  throw new Asn1Error('This SEQUENCE does not look like PKCS#1, SPKI or PKCS#8', root.offset);
+}
+
+export interface ImportedKey {
+  format: KeyExportFormat;
+  der: Uint8Array;
+  fields: DerField[];
+  // Private formats give a full key pair; public formats only n and e
+  key: RSAKeyPair | RSAPartialKey;
+}
+
+// Read a PEM string or raw DER bytes. Throws KeyFormatError or Asn1Error, both with the location of the problem.
+export function importKey(input: string | Uint8Array): ImportedKey {
+  let der: Uint8Array;
+  let labelled: KeyExportFormat | null = null;
+  // PEM files may start with explanatory text, such as the fingerprint written by this demo
+  const text = typeof input === 'string' ? input : new TextDecoder().decode(input);
+  
+  if (text.includes('-----BEGIN')) {
+    const pem = decodePem(text);
+    labelled = PEM_LABEL_FORMATS[pem.label] ?? null;
+    if (!labelled) {
+      throw new KeyFormatError(`"${pem.label}" keys are not supported; use RSA PUBLIC KEY, PUBLIC KEY, RSA PRIVATE KEY or PRIVATE KEY`);
+    }
+    der = pem.der;
+  } else if (typeof input === 'string') {
+    throw new KeyFormatError('Pasted text must be a PEM key with a "-----BEGIN" line; choose a file for binary DER');
+  } else {
+    der = input;
+  }
+  
+  const root = parseDer(der);
+  const format = labelled ?? sniffFormat(root);
+  const fields: DerField[] = [];
+  const steps = [`📥 Imported a ${KEY_EXPORT_FORMATS[format].label} key (${der.length} bytes of DER)`];
+  
+  let key: RSAKeyPair | RSAPartialKey;
+  if (format === 'pkcs1-private' || format === 'pkcs8') {
+    key = format === 'pkcs8' ? readPrivateKeyInfo(root, fields, steps) : readRSAPrivateKey(root, 0, fields, steps);
+  } else {
+    const { n, e } = format === 'spki' ? readSubjectPublicKeyInfo(root, fields) : readRSAPublicKey(root, 0, fields);
+    key = createPartialKey(n, e);
+    key.steps.unshift(...steps);
+  }
+  return { format, der, fields, key };
+}
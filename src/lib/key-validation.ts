@@ -0,0 +1,118 @@
+/**
+ * RSA Encryption Learning Demo - Key Pair Validation
+ * Check that an (n, e, d, p, q) tuple is a consistent RSA key pair
+ */
+
+import {
+  carmichaelLambda,
+  eulerTotient,
+  gcd,
+  modularExponentiation,
+  primeLabel,
+  randomBigIntInRange,
+  testPrimality,
+} from './rsa-utils';
+
+// The numbers that make up a key pair; otherPrimes holds r₃, r₄, … for multi-prime keys
+export interface KeyPairComponents {
+  n: bigint;
+  e: bigint;
+  d: bigint;
+  p: bigint;
+  q: bigint;
+  otherPrimes?: bigint[];
+}
+
+export interface KeyValidationCheck {
+  id: 'primes' | 'distinct' | 'modulus' | 'public-exponent' | 'private-exponent' | 'round-trip';
+  name: string;
+  passed: boolean;
+  explanation: string;
+}
+
+// Run every consistency check, even after a failure, so the checklist shows the full picture
+export function validateKeyPair(key: KeyPairComponents, roundTrips: number = 5): KeyValidationCheck[] {
+  const { n, e, d } = key;
+  const primes = [key.p, key.q, ...(key.otherPrimes ?? [])];
+  const labels = primes.map((_, index) => primeLabel(index));
+  const checks: KeyValidationCheck[] = [];
+
+  const composite = primes
+    .map((prime, index) => ({ label: labels[index], prime, result: testPrimality(prime, { method: 'baillie-psw' }) }))
+    .filter(({ result }) => !result.isProbablePrime);
+  checks.push({
+    id: 'primes',
+    name: `${labels.join(', ')} are prime`,
+    passed: composite.length === 0,
+    explanation: composite.length === 0
+      ? `Each factor passes the Baillie–PSW test.`
+      : composite.map(({ label, prime }) => `${label} = ${prime} is not prime.`).join(' ') +
+        ` φ(n) = (p-1)(q-1) only holds for primes, so d is computed from the wrong totient.`,
+  });
+
+  const distinct = new Set(primes).size === primes.length;
+  checks.push({
+    id: 'distinct',
+    name: `${labels.join(', ')} are distinct`,
+    passed: distinct,
+    explanation: distinct
+      ? `No prime is repeated.`
+      : `A repeated factor makes n divisible by a square, so φ(n) is not ${labels.map(label => `(${label}-1)`).join('')} and d comes out wrong.`,
+  });
+
+  const product = primes.reduce((result, prime) => result * prime, 1n);
+  checks.push({
+    id: 'modulus',
+    name: `n = ${labels.join(' × ')}`,
+    passed: product === n,
+    explanation: product === n
+      ? `${primes.join(' × ')} = ${n}.`
+      : `${primes.join(' × ')} = ${product}, but n = ${n}. The primes do not belong to this modulus.`,
+  });
+
+  const phi = eulerTotient(...primes);
+  const lambda = carmichaelLambda(...primes);
+  const divisor = gcd(e, phi);
+  const inRange = e > 1n && e < phi;
+  checks.push({
+    id: 'public-exponent',
+    name: `gcd(e, φ(n)) = 1`,
+    passed: inRange && divisor === 1n,
+    explanation: !inRange
+      ? `e = ${e} must satisfy 1 < e < φ(n) = ${phi}.`
+      : divisor === 1n
+        ? `gcd(${e}, ${phi}) = 1, so e has an inverse modulo φ(n).`
+        : `gcd(${e}, ${phi}) = ${divisor}, so e has no inverse and no d can undo encryption.`,
+  });
+
+  // A factor below 2 makes λ(n) zero or meaningless
+  const residue = lambda > 0n ? (e * d) % lambda : null;
+  checks.push({
+    id: 'private-exponent',
+    name: `e · d ≡ 1 (mod λ(n))`,
+    passed: residue === 1n,
+    explanation: residue === null
+      ? `λ(n) is undefined because a factor is smaller than 2.`
+      : residue === 1n
+        ? `${e} × ${d} ≡ 1 (mod ${lambda}), so (mᵉ)ᵈ ≡ m for every m.`
+        : `${e} × ${d} ≡ ${residue} (mod λ(n) = ${lambda}), not 1. d is not the inverse of e.`,
+  });
+
+  const failure = n > 3n
+    ? Array.from({ length: roundTrips }, () => randomBigIntInRange(2n, n - 2n))
+      .map(m => ({ m, recovered: modularExponentiation(modularExponentiation(m, e, n), d, n) }))
+      .find(({ m, recovered }) => m !== recovered)
+    : { m: 0n, recovered: 0n };
+  checks.push({
+    id: 'round-trip',
+    name: `Round-trip on ${roundTrips} random messages`,
+    passed: !failure,
+    explanation: !failure
+      ? `(mᵉ mod n)ᵈ mod n returned m for ${roundTrips} random m in [2, n-2].`
+      : n > 3n
+        ? `m = ${failure.m} encrypted and decrypted to ${failure.recovered}.`
+        : `n = ${n} is too small to hold a message.`,
+  });
+
+  return checks;
+}
@@ -0,0 +1,81 @@
+/**
+ * RSA Encryption Learning Demo - Keyring
+ * Every key generated or imported in this browser, stored as JWK and looked up by fingerprint
+ */
+
+import { base64ToBytes } from './bytes';
+import { toJWK, importJWK } from './jwk';
+import { keyFingerprint } from './fingerprint';
+import { bitLength, type RSAKeyPair, type RSAPartialKey } from './rsa-utils';
+
+// Demo keys only: localStorage is readable by any script on the page and is not encrypted
+const STORAGE_KEY = 'rsa-demo-keyring';
+
+export interface KeyringEntry {
+  // Base64 SHA-256 of the SubjectPublicKeyInfo, as shown in Step 2
+  fingerprint: string;
+  label: string;
+  bits: number;
+  // 'full' has p and q, 'private' has d only, 'public' has n and e
+  holds: 'full' | 'private' | 'public';
+  addedAt: string;
+  jwk: JsonWebKey;
+}
+
+const HOLDS_RANK: Record<KeyringEntry['holds'], number> = { public: 0, private: 1, full: 2 };
+
+function isSha256Base64(text: string): boolean {
+  try {
+    return base64ToBytes(text).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+// localStorage can be edited by hand or by older versions, so keep only entries the keyring can display
+function isKeyringEntry(value: unknown): value is KeyringEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.fingerprint === 'string' && isSha256Base64(entry.fingerprint) &&
+    typeof entry.label === 'string' &&
+    typeof entry.bits === 'number' &&
+    typeof entry.holds === 'string' && entry.holds in HOLDS_RANK &&
+    typeof entry.addedAt === 'string' &&
+    typeof entry.jwk === 'object' && entry.jwk !== null && !Array.isArray(entry.jwk);
+}
+
+export function loadKeyring(): KeyringEntry[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter(isKeyringEntry) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveKeyring(entries: KeyringEntry[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
+
+export async function createKeyringEntry(key: RSAKeyPair | RSAPartialKey, label: string): Promise<KeyringEntry> {
+  return {
+    fingerprint: (await keyFingerprint(key)).base64,
+    label,
+    bits: bitLength(key.n),
+    holds: 'p' in key ? 'full' : key.d !== null ? 'private' : 'public',
+    addedAt: new Date().toISOString(),
+    jwk: toJWK(key),
+  };
+}
+
+// Add a key, or upgrade a stored public key once its private half turns up
+export function addToKeyring(entries: KeyringEntry[], entry: KeyringEntry): KeyringEntry[] {
+  const existing = entries.find(item => item.fingerprint === entry.fingerprint);
+  if (!existing) return [...entries, entry];
+  if (HOLDS_RANK[entry.holds] <= HOLDS_RANK[existing.holds]) return entries;
+  return entries.map(item => (item === existing ? { ...entry, label: existing.label, addedAt: existing.addedAt } : item));
+}
+
+export function keyFromEntry(entry: KeyringEntry): RSAKeyPair | RSAPartialKey {
+  return importJWK(JSON.stringify(entry.jwk));
+}
@@ -0,0 +1,204 @@
+/**
+ * RSA Encryption Learning Demo - Armored Messages
+ * Ciphertext wrapped in BEGIN/END markers with headers naming the key, padding and packing that produced it
+ */
+
+import { base64ToBytes, bigIntToBytes, byteLength, bytesToBase64, bytesToBigInt, concatBytes } from './bytes';
+import { MIN_KEY_BYTES, decryptCiphertext } from './ciphertext-input';
+import { JWKError } from './jwk';
+import { keyFromEntry, type KeyringEntry } from './keyring';
+import { MESSAGE_ENCODINGS, blockSizeFits, type MessageEncodingId } from './message-encoding';
+import { PaddingError, type PaddingMode } from './rsa-padding';
+import type { RSAKeyPair, RSAPartialKey } from './rsa-utils';
+
+export class ArmorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArmorError';
+  }
+}
+
+const ARMOR_LABEL = 'RSA DEMO MESSAGE';
+const PADDING_MODES: PaddingMode[] = ['none', 'pkcs1-v1_5', 'oaep'];
+
+export interface ArmorHeaders {
+  // Base64 SHA-256 of the recipient's SubjectPublicKeyInfo
+  keyFingerprint: string;
+  encoding: MessageEncodingId;
+  padding: PaddingMode;
+  // Symbols per RSA block; padded messages are always one block per value
+  blockSize: number;
+  // Unpadded messages only: how many symbols precede the filler in the last block
+  symbolCount?: number;
+  oaepLabel: string;
+}
+
+// Each ciphertext value becomes k big-endian bytes (k = byte length of n), so the body splits back evenly
+export function armorMessage(ciphertext: bigint[], n: bigint, headers: ArmorHeaders): string {
+  const k = byteLength(n);
+  const body = bytesToBase64(concatBytes(...ciphertext.map(c => bigIntToBytes(c, k))));
+  return [
+    `-----BEGIN ${ARMOR_LABEL}-----`,
+    `Key-Fingerprint: ${headers.keyFingerprint}`,
+    `Padding: ${headers.padding}`,
+    `Encoding: ${headers.encoding}`,
+    ...(headers.padding === 'none' ? [`Block-Size: ${headers.blockSize}`] : []),
+    ...(headers.padding === 'none' && headers.symbolCount !== undefined ? [`Symbols: ${headers.symbolCount}`] : []),
+    ...(headers.padding === 'oaep' && headers.oaepLabel ? [`OAEP-Label: ${bytesToBase64(new TextEncoder().encode(headers.oaepLabel))}`] : []),
+    '',
+    ...(body.match(/.{1,64}/g) ?? []),
+    `-----END ${ARMOR_LABEL}-----`,
+    '',
+  ].join('\n');
+}
+
+export interface ParsedArmor {
+  headers: ArmorHeaders;
+  body: Uint8Array;
+}
+
+// Check the markers and headers, reporting the line of anything wrong
+export function parseArmor(text: string): ParsedArmor {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const beginLine = `-----BEGIN ${ARMOR_LABEL}-----`;
+  const endLine = `-----END ${ARMOR_LABEL}-----`;
+  const begin = lines.findIndex(line => line.startsWith('-----BEGIN '));
+  if (begin === -1) throw new ArmorError(`No "${beginLine}" line found`);
+  if (lines[begin] !== beginLine) {
+    throw new ArmorError(`Line ${begin + 1}: expected "${beginLine}", found "${lines[begin]}", which is not an armored message`);
+  }
+  const end = lines.findIndex((line, index) => index > begin && line.startsWith('-----END'));
+  if (end === -1) throw new ArmorError(`No "${endLine}" line after line ${begin + 1}; the message may be cut off`);
+  if (lines[end] !== endLine) throw new ArmorError(`Line ${end + 1}: expected "${endLine}", found "${lines[end]}"`);
+
+  const values = new Map<string, { value: string; line: number }>();
+  let index = begin + 1;
+  for (; index < end && lines[index] !== ''; index++) {
+    const match = /^([A-Za-z-]+):\s*(.*)$/.exec(lines[index]);
+    if (!match) throw new ArmorError(`Line ${index + 1}: expected a "Name: value" header or a blank line before the body`);
+    if (values.has(match[1])) throw new ArmorError(`Line ${index + 1}: header ${match[1]} appears twice`);
+    values.set(match[1], { value: match[2], line: index + 1 });
+  }
+  if (index === end) throw new ArmorError(`Line ${end + 1}: the body is missing; headers end with a blank line, then the base64 body`);
+
+  const header = (name: string, required: boolean = true) => {
+    const found = values.get(name);
+    if (!found && required) throw new ArmorError(`The ${name} header is missing`);
+    values.delete(name);
+    return found;
+  };
+  const fingerprint = header('Key-Fingerprint');
+  const padding = header('Padding');
+  const encoding = header('Encoding');
+  const blockSize = header('Block-Size', padding.value === 'none');
+  const symbols = header('Symbols', false);
+  const oaepLabel = header('OAEP-Label', false);
+  const [unknown] = values;
+  if (unknown) throw new ArmorError(`Line ${unknown[1].line}: unknown header ${unknown[0]}`);
+
+  if (!PADDING_MODES.includes(padding.value as PaddingMode)) {
+    throw new ArmorError(`Line ${padding.line}: Padding must be one of ${PADDING_MODES.join(', ')}`);
+  }
+  if (!(encoding.value in MESSAGE_ENCODINGS)) {
+    throw new ArmorError(`Line ${encoding.line}: Encoding must be one of ${Object.keys(MESSAGE_ENCODINGS).join(', ')}`);
+  }
+  if (blockSize && !/^[1-9]\d*$/.test(blockSize.value)) {
+    throw new ArmorError(`Line ${blockSize.line}: Block-Size must be a positive whole number`);
+  }
+  if (symbols && !/^\d+$/.test(symbols.value)) {
+    throw new ArmorError(`Line ${symbols.line}: Symbols must be a whole number`);
+  }
+
+  const decodeBase64 = (value: string, what: string, line: number) => {
+    try {
+      return base64ToBytes(value);
+    } catch (error) {
+      if (!(error instanceof RangeError)) throw error;
+      throw new ArmorError(`Line ${line}: ${what} is not valid base64`);
+    }
+  };
+  for (let line = index + 1; line < end; line++) {
+    const bad = lines[line].search(/[^A-Za-z0-9+/=]/);
+    if (bad !== -1) throw new ArmorError(`Line ${line + 1}, column ${bad + 1}: "${lines[line][bad]}" is not a base64 character`);
+  }
+
+  return {
+    headers: {
+      keyFingerprint: fingerprint.value,
+      padding: padding.value as PaddingMode,
+      encoding: encoding.value as MessageEncodingId,
+      blockSize: blockSize ? Number(blockSize.value) : 1,
+      symbolCount: symbols ? Number(symbols.value) : undefined,
+      oaepLabel: oaepLabel ? new TextDecoder().decode(decodeBase64(oaepLabel.value, 'OAEP-Label', oaepLabel.line)) : '',
+    },
+    body: decodeBase64(lines.slice(index + 1, end).join(''), 'The body', index + 2),
+  };
+}
+
+// Split the body into ciphertext values for the chosen key, checking it really was made for that key
+export function armorCiphertext(armor: ParsedArmor, n: bigint): { label: string; value: bigint }[] {
+  const k = byteLength(n);
+  const { body, headers } = armor;
+  if (k < MIN_KEY_BYTES[headers.padding]) {
+    throw new ArmorError(`Padding ${headers.padding} needs n of at least ${MIN_KEY_BYTES[headers.padding]} bytes; this key's n is ${k}`);
+  }
+  if (body.length === 0 || body.length % k !== 0) {
+    throw new ArmorError(`The body is ${body.length} bytes, not a whole number of ${k}-byte blocks for this key's n`);
+  }
+  if (headers.padding === 'none') {
+    const encoding = MESSAGE_ENCODINGS[headers.encoding];
+    if (!blockSizeFits(n, encoding.radix, headers.blockSize)) {
+      throw new ArmorError(`Block-Size ${headers.blockSize} cannot fit below this key's n; the headers do not match the key`);
+    }
+  }
+  return Array.from({ length: body.length / k }, (_, index) => {
+    const value = bytesToBigInt(body.subarray(index * k, (index + 1) * k));
+    if (value >= n) throw new ArmorError(`Block ${index + 1} is not smaller than n, so it was not encrypted with this key`);
+    return { label: String(index + 1), value };
+  });
+}
+
+// Parse the armor, find the recipient's key in the keyring by fingerprint, and decrypt with the recorded settings
+export async function decryptArmoredMessage(text: string, keyring: KeyringEntry[]): Promise<{
+  decrypted: string;
+  steps: string[];
+  entry: KeyringEntry;
+}> {
+  const armor = parseArmor(text);
+  const { headers } = armor;
+  const entry = keyring.find(item => item.fingerprint === headers.keyFingerprint);
+  if (!entry) {
+    throw new ArmorError(`No key with fingerprint ${headers.keyFingerprint} is in the keyring; import the recipient's private key first`);
+  }
+  let key: RSAKeyPair | RSAPartialKey;
+  try {
+    key = keyFromEntry(entry);
+  } catch (error) {
+    if (!(error instanceof JWKError)) throw error;
+    throw new ArmorError(`The keyring entry "${entry.label}" no longer holds a valid key (${error.message}); remove it and import the key again`);
+  }
+  if (key.d === null) {
+    throw new ArmorError(`The keyring holds only the public half of "${entry.label}"; import its private key to decrypt`);
+  }
+
+  const steps = [
+    `🔎 Key-Fingerprint ${headers.keyFingerprint} matches "${entry.label}" (${entry.bits}-bit) in the keyring`,
+    headers.padding === 'none'
+      ? `⚙️ Padding: none, Encoding: ${MESSAGE_ENCODINGS[headers.encoding].label}, ${headers.blockSize} symbol(s) per block`
+      : `⚙️ Padding: ${headers.padding}${headers.oaepLabel ? `, OAEP label "${headers.oaepLabel}"` : ''}`,
+  ];
+  const values = armorCiphertext(armor, key.n);
+  steps.push(`📦 The body holds ${values.length} block(s) of ${byteLength(key.n)} bytes`);
+
+  try {
+    const result = await decryptCiphertext(values, { n: key.n, d: key.d }, {
+      padding: headers.padding,
+      oaepLabel: headers.oaepLabel,
+      layout: { encoding: headers.encoding, blockSize: headers.blockSize, symbolCount: headers.symbolCount },
+    });
+    return { decrypted: result.decrypted, steps: [...steps, ...result.steps], entry };
+  } catch (error) {
+    if (!(error instanceof PaddingError)) throw error;
+    throw new ArmorError(`The ciphertext does not decrypt under its headers: ${error.message}`);
+  }
+}
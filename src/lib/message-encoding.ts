@@ -0,0 +1,165 @@
+/**
+ * RSA Encryption Learning Demo - Message Encoding Layer
+ * Turns text into numeric symbols and packs them into integer blocks smaller than the modulus n
+ */
+
+export type MessageEncodingId = 'utf-8' | 'code-points' | 'textbook' | 'ascii';
+
+// The symbols produced for one character of the message
+export interface EncodedCharacter {
+  text: string;
+  symbols: bigint[];
+}
+
+export interface MessageEncoding {
+  id: MessageEncodingId;
+  label: string;
+  // Every symbol is a digit in this base when packed into blocks
+  radix: bigint;
+  // Symbol used to fill the last block; dropped on decode by the recorded symbol count, not by value
+  padding: bigint;
+  // Describe the first character this encoding cannot represent, or null if all are fine
+  findInvalidCharacter(message: string): string | null;
+  encode(message: string): EncodedCharacter[];
+  decode(symbols: bigint[]): string;
+  // Short display form of a single symbol
+  showSymbol(symbol: bigint): string;
+}
+
+const utf8Encoding: MessageEncoding = {
+  id: 'utf-8',
+  label: 'UTF-8 bytes',
+  radix: 256n,
+  padding: 0n,
+  findInvalidCharacter: () => null,
+  encode: message => {
+    const encoder = new TextEncoder();
+    return Array.from(message).map(text => ({
+      text,
+      symbols: Array.from(encoder.encode(text), byte => BigInt(byte)),
+    }));
+  },
+  decode: symbols => new TextDecoder().decode(Uint8Array.from(symbols, symbol => Number(symbol & 0xffn))),
+  showSymbol: symbol => `0x${symbol.toString(16).toUpperCase().padStart(2, '0')}`,
+};
+
+const codePointEncoding: MessageEncoding = {
+  id: 'code-points',
+  label: 'Unicode code points',
+  radix: 0x110000n,
+  padding: 0n,
+  findInvalidCharacter: () => null,
+  encode: message => Array.from(message).map(text => ({ text, symbols: [BigInt(text.codePointAt(0))] })),
+  decode: symbols => symbols.map(symbol => codePointToString(symbol)).join(''),
+  showSymbol: symbol => `U+${symbol.toString(16).toUpperCase().padStart(4, '0')}`,
+};
+
+// A = 00, B = 01, …, Z = 25, with X as the conventional filler
+const textbookEncoding: MessageEncoding = {
+  id: 'textbook',
+  label: 'Textbook A=00 … Z=25',
+  radix: 100n,
+  padding: 23n,
+  findInvalidCharacter: message => {
+    const invalid = Array.from(message.toUpperCase()).find(char => char < 'A' || char > 'Z');
+    return invalid === undefined ? null : `'${invalid}' is not a letter A–Z`;
+  },
+  encode: message => Array.from(message.toUpperCase()).map(text => ({
+    text,
+    symbols: [BigInt(text.charCodeAt(0) - 65)],
+  })),
+  decode: symbols => symbols.map(symbol => (symbol <= 25n ? String.fromCharCode(65 + Number(symbol)) : '?')).join(''),
+  showSymbol: symbol => symbol.toString().padStart(2, '0'),
+};
+
+const asciiEncoding: MessageEncoding = {
+  id: 'ascii',
+  label: 'Raw ASCII',
+  radix: 256n,
+  padding: 0n,
+  findInvalidCharacter: message => {
+    const invalid = Array.from(message).find(char => char.codePointAt(0) > 127);
+    return invalid === undefined ? null : `'${invalid}' is outside 7-bit ASCII`;
+  },
+  encode: message => Array.from(message).map(text => ({ text, symbols: [BigInt(text.charCodeAt(0))] })),
+  decode: symbols => symbols.map(symbol => String.fromCharCode(Number(symbol))).join(''),
+  showSymbol: symbol => symbol.toString(),
+};
+
+export const MESSAGE_ENCODINGS: Record<MessageEncodingId, MessageEncoding> = {
+  'utf-8': utf8Encoding,
+  'code-points': codePointEncoding,
+  'textbook': textbookEncoding,
+  'ascii': asciiEncoding,
+};
+
+// Convert a code point to a string, substituting U+FFFD for values outside Unicode
+function codePointToString(symbol: bigint): string {
+  return symbol <= 0x10ffffn ? String.fromCodePoint(Number(symbol)) : '�';
+}
+
+// A block of consecutive symbols and the single integer they pack into
+export interface MessageBlock {
+  symbols: bigint[];
+  value: bigint;
+}
+
+// Largest k with radix^k ≤ n, i.e. the most symbols whose packed value is always < n
+export function maxBlockSize(n: bigint, radix: bigint): number {
+  let size = 0;
+  let capacity = radix;
+  while (capacity <= n) {
+    size++;
+    capacity *= radix;
+  }
+  return size;
+}
+
+// Whether blocks of this many symbols always decode below n. One symbol per block always does: every
+// decrypted value is below n, and the encrypting side already checked each symbol is too.
+export function blockSizeFits(n: bigint, radix: bigint, blockSize: number): boolean {
+  return blockSize === 1 || blockSize <= maxBlockSize(n, radix);
+}
+
+// Pack symbols base-radix, most significant first; the last block is filled with the padding symbol
+export function packBlocks(symbols: bigint[], radix: bigint, blockSize: number, padding: bigint = 0n): MessageBlock[] {
+  const blocks: MessageBlock[] = [];
+  for (let i = 0; i < symbols.length; i += blockSize) {
+    const chunk = symbols.slice(i, i + blockSize);
+    while (chunk.length < blockSize) chunk.push(padding);
+    const value = chunk.reduce((acc, symbol) => acc * radix + symbol, 0n);
+    blocks.push({ symbols: chunk, value });
+  }
+  return blocks;
+}
+
+// Split each block back into blockSize symbols, keeping only the first symbolCount when it is known.
+// The filler may equal a real symbol (X, NUL), so it cannot be recognised by value.
+export function unpackBlocks(values: bigint[], radix: bigint, blockSize: number, symbolCount?: number): MessageBlock[] {
+  const blocks = values.map(value => {
+    const symbols: bigint[] = [];
+    let rest = value;
+    for (let i = 0; i < blockSize; i++) {
+      symbols.unshift(rest % radix);
+      rest /= radix;
+    }
+    return { symbols, value };
+  });
+
+  if (symbolCount !== undefined) {
+    blocks.forEach((block, index) => {
+      block.symbols = block.symbols.slice(0, Math.max(0, symbolCount - index * blockSize));
+    });
+  }
+  return blocks;
+}
+
+// Describe how a block's value is built, e.g. "72×256 + 105 = 18537"
+export function describeBlock(block: MessageBlock, radix: bigint): string {
+  const terms = block.symbols.map((symbol, i) => {
+    const power = block.symbols.length - 1 - i;
+    if (power === 0) return `${symbol}`;
+    return power === 1 ? `${symbol}×${radix}` : `${symbol}×${radix}^${power}`;
+  });
+  return `${terms.join(' + ')} = ${block.value}`;
+}
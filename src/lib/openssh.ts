@@ -0,0 +1,167 @@
+/**
+ * RSA Encryption Learning Demo - OpenSSH Public Keys
+ * The "ssh-rsa AAAA… comment" lines of authorized_keys and id_rsa.pub (RFC 4253 §6.6)
+ */
+
+import { base64ToBytes, bigIntToBytes, bytesToBase64, bytesToBigInt, concatBytes, sha256 } from './bytes';
+import { randomart } from './fingerprint';
+import { bitLength } from './rsa-utils';
+
+export class OpenSSHError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpenSSHError';
+  }
+}
+
+// One length-prefixed field of the SSH wire encoding
+export interface SSHWireField {
+  offset: number;
+  label: string;
+  type: 'string' | 'mpint';
+  // The 4-byte big-endian length, then the data it announces
+  lengthBytes: Uint8Array;
+  data: Uint8Array;
+  value: string;
+}
+
+export interface OpenSSHPublicKey {
+  n: bigint;
+  e: bigint;
+  comment: string;
+  line: string;
+  blob: Uint8Array;
+  fields: SSHWireField[];
+  // Exactly what `ssh-keygen -lf` prints for this key, and the picture `ssh-keygen -lvf` adds
+  fingerprint: string;
+  randomart: string;
+}
+
+const KEY_TYPE = 'ssh-rsa';
+
+function lengthPrefix(length: number): Uint8Array {
+  return Uint8Array.of(length >>> 24, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff);
+}
+
+// mpint is two's complement like DER: a leading 1 bit needs a 0x00 in front, and zero is empty
+function mpintBytes(value: bigint): Uint8Array {
+  if (value === 0n) return new Uint8Array(0);
+  const magnitude = bigIntToBytes(value);
+  return magnitude[0] & 0x80 ? concatBytes(Uint8Array.of(0), magnitude) : magnitude;
+}
+
+// SHA256: followed by the unpadded base64 hash of the key blob, as in OpenSSH 6.8 and later
+async function fingerprintOf(n: bigint, blob: Uint8Array, comment: string): Promise<{ fingerprint: string; randomart: string }> {
+  const digest = await sha256(blob);
+  const hash = bytesToBase64(digest).replace(/=+$/, '');
+  return {
+    fingerprint: `${bitLength(n)} SHA256:${hash} ${comment || 'no comment'} (RSA)`,
+    randomart: randomart(digest, `RSA ${bitLength(n)}`),
+  };
+}
+
+function fieldsFor(blob: Uint8Array, n: bigint, e: bigint): SSHWireField[] {
+  const fields: SSHWireField[] = [];
+  let offset = 0;
+  for (const [label, type, value] of [['key type', 'string', KEY_TYPE], ['e', 'mpint', e.toString()], ['n', 'mpint', n.toString()]] as const) {
+    const length = new DataView(blob.buffer, blob.byteOffset + offset, 4).getUint32(0);
+    fields.push({
+      offset,
+      label,
+      type,
+      lengthBytes: blob.subarray(offset, offset + 4),
+      data: blob.subarray(offset + 4, offset + 4 + length),
+      value,
+    });
+    offset += 4 + length;
+  }
+  return fields;
+}
+
+// The order is string "ssh-rsa", mpint e, mpint n; e comes first, unlike PKCS#1
+export async function exportOpenSSH(n: bigint, e: bigint, comment: string = 'rsa-demo'): Promise<OpenSSHPublicKey> {
+  const parts = [new TextEncoder().encode(KEY_TYPE), mpintBytes(e), mpintBytes(n)];
+  const blob = concatBytes(...parts.flatMap(part => [lengthPrefix(part.length), part]));
+  const cleanComment = comment.trim();
+  return {
+    n,
+    e,
+    comment: cleanComment,
+    line: `${KEY_TYPE} ${bytesToBase64(blob)}${cleanComment ? ` ${cleanComment}` : ''}`,
+    blob,
+    fields: fieldsFor(blob, n, e),
+    ...(await fingerprintOf(n, blob, cleanComment)),
+  };
+}
+
+// Read one length-prefixed field, reporting the byte offset of anything that does not fit
+function readField(blob: Uint8Array, offset: number, label: string): Uint8Array {
+  if (offset + 4 > blob.length) {
+    throw new OpenSSHError(`The key data ends at byte ${blob.length}, before the length of ${label} at byte ${offset}`);
+  }
+  const length = new DataView(blob.buffer, blob.byteOffset + offset, 4).getUint32(0);
+  if (offset + 4 + length > blob.length) {
+    throw new OpenSSHError(`${label} at byte ${offset} declares ${length} bytes but only ${blob.length - offset - 4} remain`);
+  }
+  return blob.subarray(offset + 4, offset + 4 + length);
+}
+
+function readMpint(data: Uint8Array, offset: number, label: string): bigint {
+  if (data.length > 0 && data[0] & 0x80) throw new OpenSSHError(`${label} at byte ${offset} is negative`);
+  if (data.length > 1 && data[0] === 0 && !(data[1] & 0x80)) {
+    throw new OpenSSHError(`${label} at byte ${offset} has a redundant leading zero byte`);
+  }
+  return bytesToBigInt(data);
+}
+
+// Parse a single "ssh-rsa AAAA… comment" line back into n and e
+export async function parseOpenSSH(line: string): Promise<OpenSSHPublicKey> {
+  const trimmed = line.trim();
+  if (trimmed.includes('\n')) throw new OpenSSHError('Paste a single line; OpenSSH public keys are never wrapped');
+  if (trimmed.startsWith('-----BEGIN')) {
+    throw new OpenSSHError('This is a PEM key; import it as PEM, or convert it with "ssh-keygen -i -m PKCS8 -f key.pem"');
+  }
+  const [type, base64, ...commentWords] = trimmed.split(/\s+/);
+  if (type !== KEY_TYPE) {
+    throw new OpenSSHError(`The line starts with "${type}", expected "${KEY_TYPE}" (other key types such as ssh-ed25519 are not RSA)`);
+  }
+  if (!base64) throw new OpenSSHError('The key data after "ssh-rsa" is missing');
+
+  let blob: Uint8Array;
+  try {
+    blob = base64ToBytes(base64);
+  } catch (error) {
+    if (!(error instanceof RangeError)) throw error;
+    throw new OpenSSHError('The key data after "ssh-rsa" is not valid base64');
+  }
+
+  const typeData = readField(blob, 0, 'key type');
+  const innerType = new TextDecoder().decode(typeData);
+  if (innerType !== KEY_TYPE) {
+    throw new OpenSSHError(/^[\x21-\x7e]+$/.test(innerType)
+      ? `The key data names its type "${innerType}", which does not match "${KEY_TYPE}" at the start of the line`
+      : `The key data does not start with the "${KEY_TYPE}" type string; it may be truncated or corrupted`);
+  }
+  const eOffset = 4 + typeData.length;
+  const eData = readField(blob, eOffset, 'e');
+  const nOffset = eOffset + 4 + eData.length;
+  const nData = readField(blob, nOffset, 'n');
+  const end = nOffset + 4 + nData.length;
+  if (end !== blob.length) throw new OpenSSHError(`${blob.length - end} unexpected bytes after n, starting at byte ${end}`);
+
+  const e = readMpint(eData, eOffset, 'e');
+  const n = readMpint(nData, nOffset, 'n');
+  if (n < 6n) throw new OpenSSHError(`n = ${n} is too small to be an RSA modulus`);
+  if (e <= 1n || e >= n) throw new OpenSSHError(`e = ${e} must satisfy 1 < e < n`);
+
+  const comment = commentWords.join(' ');
+  return {
+    n,
+    e,
+    comment,
+    line: trimmed,
+    blob,
+    fields: fieldsFor(blob, n, e),
+    ...(await fingerprintOf(n, blob, comment)),
+  };
+}
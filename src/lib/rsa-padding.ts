@@ -0,0 +1,269 @@
+/**
+ * RSA Encryption Learning Demo - Encryption Padding Schemes
+ * PKCS#1 v1.5 (RFC 8017 §7.2) and OAEP (RFC 8017 §7.1) built on the same modular exponentiation as textbook RSA
+ */
+
+import {
+  bigIntToBytes,
+  byteLength,
+  bytesEqual,
+  bytesToBigInt,
+  bytesToHex,
+  concatBytes,
+  digest,
+  randomNonZeroBytes,
+  sha256,
+  xorBytes,
+  HASH_LENGTHS,
+  type HashAlgorithm,
+} from './bytes';
+import { traceModularExponentiation, type ModularExponentiationTrace } from './rsa-utils';
+
+export type PaddingMode = 'none' | 'pkcs1-v1_5' | 'oaep';
+
+// Thrown when a padding scheme cannot be applied or a decrypted block is malformed
+export class PaddingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaddingError';
+  }
+}
+
+// 0x00 0x02, at least 8 bytes of padding string, then the 0x00 separator
+export const PKCS1_V15_OVERHEAD = 11;
+
+// EM = 0x00 || 0x02 || PS || 0x00 || M, with PS random and non-zero
+export function pkcs1v15Pad(message: Uint8Array, k: number): Uint8Array {
+  if (message.length > k - PKCS1_V15_OVERHEAD) {
+    throw new PaddingError(
+      `PKCS#1 v1.5 needs ${PKCS1_V15_OVERHEAD} bytes of overhead, so a ${message.length}-byte message ` +
+      `requires n of at least ${message.length + PKCS1_V15_OVERHEAD} bytes (${(message.length + PKCS1_V15_OVERHEAD) * 8} bits). ` +
+      `This n is only ${k} bytes; generate larger primes.`
+    );
+  }
+  const padding = randomNonZeroBytes(k - message.length - 3);
+  return concatBytes(Uint8Array.of(0x00, 0x02), padding, Uint8Array.of(0x00), message);
+}
+
+// Check the 0x00 0x02 header, the ≥ 8 byte padding string and the separator, returning M
+export function pkcs1v15Unpad(em: Uint8Array): Uint8Array {
+  if (em.length < PKCS1_V15_OVERHEAD) {
+    throw new PaddingError(`Decryption error: n is ${em.length} bytes, but a PKCS#1 v1.5 block needs at least ${PKCS1_V15_OVERHEAD}`);
+  }
+  if (em[0] !== 0x00) throw new PaddingError(`Invalid padding: first byte is 0x${em[0].toString(16)}, expected 0x00`);
+  if (em[1] !== 0x02) throw new PaddingError(`Invalid padding: block type is 0x${em[1].toString(16)}, expected 0x02`);
+  const separator = em.indexOf(0x00, 2);
+  if (separator < 0) throw new PaddingError('Invalid padding: no 0x00 separator after the padding string');
+  if (separator < 10) throw new PaddingError(`Invalid padding: padding string is ${separator - 2} bytes, at least 8 required`);
+  return em.slice(separator + 1);
+}
+
+// Hex view of a PKCS#1 v1.5 block split into its fields
+export function describePKCS1v15Block(em: Uint8Array): string[] {
+  const separator = em.indexOf(0x00, 2);
+  return [
+    `   00 02 (header)`,
+    `   ${bytesToHex(em.slice(2, separator))} (PS: ${separator - 2} random non-zero bytes)`,
+    `   00 (separator)`,
+    `   ${bytesToHex(em.slice(separator + 1))} (M: ${em.length - separator - 1} message bytes)`,
+  ];
+}
+
+// Encrypt a UTF-8 message as a single PKCS#1 v1.5 block
+export function rsaEncryptPKCS1v15(message: string, e: bigint, n: bigint): {
+  ciphertext: bigint[];
+  steps: string[];
+  traces: ModularExponentiationTrace[];
+  paddedBlock: Uint8Array;
+} {
+  const steps: string[] = [];
+  const k = byteLength(n);
+  const messageBytes = new TextEncoder().encode(message);
+  
+  steps.push(`🔤 Encode "${message}" as UTF-8: ${bytesToHex(messageBytes)} (${messageBytes.length} bytes)`);
+  steps.push(`📏 n is k = ${k} bytes, so M may be at most k - ${PKCS1_V15_OVERHEAD} = ${k - PKCS1_V15_OVERHEAD} bytes`);
+  
+  const em = pkcs1v15Pad(messageBytes, k);
+  steps.push(`🧱 Padded block EM = 0x00 || 0x02 || PS || 0x00 || M:`);
+  steps.push(...describePKCS1v15Block(em));
+  
+  const m = bytesToBigInt(em);
+  steps.push(`🔢 Read EM as an integer: m = ${m}`);
+  
+  const trace = traceModularExponentiation(m, e, n);
+  steps.push(`🔒 Encrypt: m^${e} mod ${n} = ${trace.result}`);
+  steps.push(`🎲 PS is random, so encrypting the same message again gives a different ciphertext`);
+  
+  return { ciphertext: [trace.result], steps, traces: [trace], paddedBlock: em };
+}
+
+// Decrypt a PKCS#1 v1.5 block and validate its padding
+export function rsaDecryptPKCS1v15(ciphertext: bigint[], d: bigint, n: bigint): {
+  decrypted: string;
+  steps: string[];
+  traces: ModularExponentiationTrace[];
+} {
+  const steps: string[] = [];
+  const k = byteLength(n);
+  if (ciphertext.length !== 1) {
+    throw new PaddingError(`PKCS#1 v1.5 ciphertext is a single value, got ${ciphertext.length}`);
+  }
+  
+  const c = ciphertext[0];
+  if (c >= n) throw new PaddingError(`Ciphertext ${c} is not smaller than n`);
+  const trace = traceModularExponentiation(c, d, n);
+  steps.push(`🔓 Decrypt ${c}: ${c}^${d} mod ${n} = ${trace.result}`);
+  
+  const em = bigIntToBytes(trace.result, k);
+  steps.push(`🧱 Write m as k = ${k} bytes: ${bytesToHex(em)}`);
+  
+  const messageBytes = pkcs1v15Unpad(em);
+  steps.push(`✓ Padding valid: 00 02 header, ${em.length - messageBytes.length - 3}-byte PS, 00 separator`);
+  steps.push(...describePKCS1v15Block(em));
+  
+  const decrypted = new TextDecoder().decode(messageBytes);
+  steps.push(`📋 Reconstructed message: "${decrypted}"`);
+  
+  return { decrypted, steps, traces: [trace] };
+}
+
+// SHA-256 output length in bytes
+const HASH_LENGTH = 32;
+
+// lHash, two hash-length fields and the 0x00 / 0x01 marker bytes
+export const OAEP_OVERHEAD = 2 * HASH_LENGTH + 2;
+
+// MGF1 mask generation: Hash(seed || counter) blocks concatenated and truncated
+export async function mgf1(seed: Uint8Array, length: number, hash: HashAlgorithm = 'SHA-256'): Promise<Uint8Array> {
+  const blocks: Uint8Array[] = [];
+  for (let counter = 0; blocks.length * HASH_LENGTHS[hash] < length; counter++) {
+    blocks.push(await digest(hash, concatBytes(seed, bigIntToBytes(BigInt(counter), 4))));
+  }
+  return concatBytes(...blocks).slice(0, length);
+}
+
+// The intermediate values of one OAEP encoding, for the step trace
+export interface OAEPTrace {
+  lHash: Uint8Array;
+  seed: Uint8Array;
+  db: Uint8Array;
+  maskedDB: Uint8Array;
+  maskedSeed: Uint8Array;
+  em: Uint8Array;
+}
+
+// EM = 0x00 || maskedSeed || maskedDB with DB = lHash || PS || 0x01 || M
+export async function oaepEncode(message: Uint8Array, k: number, label: Uint8Array = new Uint8Array()): Promise<OAEPTrace> {
+  if (message.length > k - OAEP_OVERHEAD) {
+    throw new PaddingError(
+      `OAEP with SHA-256 needs ${OAEP_OVERHEAD} bytes of overhead, so a ${message.length}-byte message ` +
+      `requires n of at least ${message.length + OAEP_OVERHEAD} bytes (${(message.length + OAEP_OVERHEAD) * 8} bits). ` +
+      `This n is only ${k} bytes; generate larger primes.`
+    );
+  }
+  
+  const lHash = await sha256(label);
+  const ps = new Uint8Array(k - message.length - OAEP_OVERHEAD);
+  const db = concatBytes(lHash, ps, Uint8Array.of(0x01), message);
+  const seed = crypto.getRandomValues(new Uint8Array(HASH_LENGTH));
+  const maskedDB = xorBytes(db, await mgf1(seed, db.length));
+  const maskedSeed = xorBytes(seed, await mgf1(maskedDB, HASH_LENGTH));
+  const em = concatBytes(Uint8Array.of(0x00), maskedSeed, maskedDB);
+  
+  return { lHash, seed, db, maskedDB, maskedSeed, em };
+}
+
+// Undo the masks and check the leading zero, lHash and the 0x01 separator, returning M.
+// Real implementations report one generic error to avoid padding oracles; the demo explains which check failed.
+export async function oaepDecode(em: Uint8Array, label: Uint8Array = new Uint8Array()): Promise<{ message: Uint8Array; trace: OAEPTrace }> {
+  // RFC 8017 §7.1.2 step 1c: k < 2·hLen + 2 leaves no room for the seed and DB
+  if (em.length < OAEP_OVERHEAD) {
+    throw new PaddingError(`Decryption error: n is ${em.length} bytes, but an OAEP block with SHA-256 needs at least ${OAEP_OVERHEAD}`);
+  }
+  const maskedSeed = em.slice(1, 1 + HASH_LENGTH);
+  const maskedDB = em.slice(1 + HASH_LENGTH);
+  const seed = xorBytes(maskedSeed, await mgf1(maskedDB, HASH_LENGTH));
+  const db = xorBytes(maskedDB, await mgf1(seed, maskedDB.length));
+  const lHash = await sha256(label);
+  
+  if (em[0] !== 0x00) throw new PaddingError(`Invalid OAEP block: first byte is 0x${em[0].toString(16)}, expected 0x00`);
+  if (!bytesEqual(db.slice(0, HASH_LENGTH), lHash)) {
+    throw new PaddingError('Invalid OAEP block: the label hash does not match (wrong label or wrong key)');
+  }
+  let separator = HASH_LENGTH;
+  while (separator < db.length && db[separator] === 0x00) separator++;
+  if (db[separator] !== 0x01) throw new PaddingError('Invalid OAEP block: no 0x01 separator after the zero padding');
+  
+  return { message: db.slice(separator + 1), trace: { lHash, seed, db, maskedDB, maskedSeed, em } };
+}
+
+function describeOAEPTrace(trace: OAEPTrace): string[] {
+  return [
+    `   lHash = SHA-256(label) = ${bytesToHex(trace.lHash)}`,
+    `   seed = ${bytesToHex(trace.seed)} (${trace.seed.length} random bytes)`,
+    `   DB = lHash || PS || 01 || M = ${bytesToHex(trace.db)}`,
+    `   maskedDB = DB ⊕ MGF1(seed) = ${bytesToHex(trace.maskedDB)}`,
+    `   maskedSeed = seed ⊕ MGF1(maskedDB) = ${bytesToHex(trace.maskedSeed)}`,
+    `   EM = 00 || maskedSeed || maskedDB = ${bytesToHex(trace.em)}`,
+  ];
+}
+
+// Encrypt a UTF-8 message as a single RSA-OAEP block (SHA-256, MGF1-SHA-256)
+export async function rsaEncryptOAEP(message: string, e: bigint, n: bigint, label: string = ''): Promise<{
+  ciphertext: bigint[];
+  steps: string[];
+  traces: ModularExponentiationTrace[];
+  paddedBlock: Uint8Array;
+}> {
+  const steps: string[] = [];
+  const k = byteLength(n);
+  const messageBytes = new TextEncoder().encode(message);
+  
+  steps.push(`🔤 Encode "${message}" as UTF-8: ${bytesToHex(messageBytes)} (${messageBytes.length} bytes)`);
+  steps.push(`📏 n is k = ${k} bytes, so M may be at most k - 2·32 - 2 = ${k - OAEP_OVERHEAD} bytes`);
+  steps.push(label ? `🏷️ Label L = "${label}"` : `🏷️ Label L is empty`);
+  
+  const trace = await oaepEncode(messageBytes, k, new TextEncoder().encode(label));
+  steps.push(`🧱 OAEP encoding with SHA-256 and MGF1:`);
+  steps.push(...describeOAEPTrace(trace));
+  
+  const m = bytesToBigInt(trace.em);
+  steps.push(`🔢 Read EM as an integer: m = ${m}`);
+  
+  const exponentiation = traceModularExponentiation(m, e, n);
+  steps.push(`🔒 Encrypt: m^${e} mod ${n} = ${exponentiation.result}`);
+  
+  return { ciphertext: [exponentiation.result], steps, traces: [exponentiation], paddedBlock: trace.em };
+}
+
+// Decrypt a single RSA-OAEP block and validate its encoding
+export async function rsaDecryptOAEP(ciphertext: bigint[], d: bigint, n: bigint, label: string = ''): Promise<{
+  decrypted: string;
+  steps: string[];
+  traces: ModularExponentiationTrace[];
+}> {
+  const steps: string[] = [];
+  const k = byteLength(n);
+  if (ciphertext.length !== 1) {
+    throw new PaddingError(`OAEP ciphertext is a single value, got ${ciphertext.length}`);
+  }
+  if (k < OAEP_OVERHEAD) {
+    throw new PaddingError(`Decryption error: n is ${k} bytes, but an OAEP block with SHA-256 needs at least ${OAEP_OVERHEAD}`);
+  }
+  
+  const c = ciphertext[0];
+  if (c >= n) throw new PaddingError(`Ciphertext ${c} is not smaller than n`);
+  const exponentiation = traceModularExponentiation(c, d, n);
+  steps.push(`🔓 Decrypt ${c}: ${c}^${d} mod ${n} = ${exponentiation.result}`);
+  
+  const em = bigIntToBytes(exponentiation.result, k);
+  const { message, trace } = await oaepDecode(em, new TextEncoder().encode(label));
+  steps.push(`🧱 Unmask: seed = maskedSeed ⊕ MGF1(maskedDB), then DB = maskedDB ⊕ MGF1(seed):`);
+  steps.push(...describeOAEPTrace(trace));
+  steps.push(`✓ Encoding valid: leading 00, lHash matches, 01 separator found`);
+  
+  const decrypted = new TextDecoder().decode(message);
+  steps.push(`📋 Reconstructed message: "${decrypted}"`);
+  
+  return { decrypted, steps, traces: [exponentiation] };
+}
@@ -0,0 +1,275 @@
+/**
+ * RSA Encryption Learning Demo - Digital Signatures
+ * Sign with the private exponent d, verify with the public exponent e, hashing with SHA-256
+ */
+
+import {
+  bigIntToBytes,
+  byteLength,
+  bytesEqual,
+  bytesToBigInt,
+  bytesToHex,
+  concatBytes,
+  digest,
+  sha256,
+  xorBytes,
+  HASH_LENGTHS,
+  type HashAlgorithm,
+} from './bytes';
+import { importIntoWebCrypto } from './jwk';
+import { mgf1 } from './rsa-padding';
+import { bitLength, modularExponentiation, type RSAKeyPair } from './rsa-utils';
+
+export type SignatureMode = 'textbook' | 'pkcs1-v1_5' | 'pss';
+
+// RSASSA-PSS parameters; MGF1 always uses the same hash as the message digest
+export interface PSSOptions {
+  hash: HashAlgorithm;
+  saltLength: number;
+}
+
+export const DEFAULT_PSS_OPTIONS: PSSOptions = { hash: 'SHA-256', saltLength: 32 };
+
+// Thrown when a signature scheme cannot be used with the given key
+export class SignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignatureError';
+  }
+}
+
+// DER prefix of DigestInfo { AlgorithmIdentifier sha256, OCTET STRING (32 bytes) } from RFC 8017 §9.2
+export const SHA256_DIGEST_INFO_PREFIX = Uint8Array.from([
+  0x30, 0x31, 0x30, 0x0d, 0x06, 0x09, 0x60, 0x86, 0x48, 0x01, 0x65, 0x03, 0x04, 0x02, 0x01, 0x05, 0x00, 0x04, 0x20,
+]);
+
+// EMSA-PKCS1-v1_5: 0x00 || 0x01 || FF…FF (≥ 8 bytes) || 0x00 || DigestInfo
+export function emsaPKCS1v15Encode(digest: Uint8Array, k: number): Uint8Array {
+  const t = concatBytes(SHA256_DIGEST_INFO_PREFIX, digest);
+  if (k < t.length + 11) {
+    throw new SignatureError(
+      `PKCS#1 v1.5 signatures with SHA-256 need n of at least ${t.length + 11} bytes (${(t.length + 11) * 8} bits). ` +
+      `This n is only ${k} bytes; generate larger primes.`
+    );
+  }
+  const ps = new Uint8Array(k - t.length - 3).fill(0xff);
+  return concatBytes(Uint8Array.of(0x00, 0x01), ps, Uint8Array.of(0x00), t);
+}
+
+// The integer that gets exponentiated: the digest reduced mod n (textbook) or the EMSA block (PKCS#1 v1.5)
+async function signatureRepresentative(message: string, n: bigint, mode: SignatureMode, steps: string[]): Promise<bigint> {
+  const digest = await sha256(new TextEncoder().encode(message));
+  steps.push(`#️⃣ Hash the message: SHA-256("${message}") = ${bytesToHex(digest, '')}`);
+  
+  if (mode === 'textbook') {
+    const h = bytesToBigInt(digest);
+    const reduced = h % n;
+    steps.push(reduced === h
+      ? `🔢 Read the hash as an integer: h = ${h}`
+      : `🔢 Read the hash as an integer and reduce it mod n (n is smaller than 256 bits): h = ${reduced}`);
+    return reduced;
+  }
+  
+  const em = emsaPKCS1v15Encode(digest, byteLength(n));
+  steps.push(`🧱 Encode EM = 00 01 || FF…FF || 00 || DigestInfo(SHA-256, hash): ${bytesToHex(em)}`);
+  const h = bytesToBigInt(em);
+  steps.push(`🔢 Read EM as an integer: h = ${h}`);
+  return h;
+}
+
+// Largest PSS salt that fits: emLen - hLen - 2 bytes, with emBits = bits(n) - 1
+export function maxPSSSaltLength(n: bigint, hash: HashAlgorithm): number {
+  return Math.max(Math.ceil((bitLength(n) - 1) / 8) - HASH_LENGTHS[hash] - 2, -1);
+}
+
+// M' = 00 00 00 00 00 00 00 00 || mHash || salt, hashed into the H field of EM
+async function pssHash(hash: HashAlgorithm, mHash: Uint8Array, salt: Uint8Array): Promise<Uint8Array> {
+  return digest(hash, concatBytes(new Uint8Array(8), mHash, salt));
+}
+
+// EMSA-PSS-ENCODE from RFC 8017 §9.1.1: EM = maskedDB || H || 0xbc
+export async function emsaPSSEncode(mHash: Uint8Array, emBits: number, options: PSSOptions, steps: string[]): Promise<Uint8Array> {
+  const hLen = HASH_LENGTHS[options.hash];
+  const emLen = Math.ceil(emBits / 8);
+  if (emLen < hLen + options.saltLength + 2) {
+    throw new SignatureError(
+      `PSS with ${options.hash} and a ${options.saltLength}-byte salt needs n of at least ` +
+      `${(hLen + options.saltLength + 2) * 8 + 1} bits. This n is only ${emBits + 1} bits; ` +
+      `use a shorter salt or generate larger primes.`
+    );
+  }
+  
+  const salt = crypto.getRandomValues(new Uint8Array(options.saltLength));
+  steps.push(`🧂 Random ${options.saltLength}-byte salt: ${bytesToHex(salt, '') || '(empty)'}`);
+  
+  const h = await pssHash(options.hash, mHash, salt);
+  steps.push(`#️⃣ H = ${options.hash}(00×8 || mHash || salt) = ${bytesToHex(h, '')}`);
+  
+  const db = concatBytes(new Uint8Array(emLen - options.saltLength - hLen - 2), Uint8Array.of(0x01), salt);
+  const maskedDB = xorBytes(db, await mgf1(h, db.length, options.hash));
+  // Clear the bits above emBits so EM < 2^emBits < n
+  maskedDB[0] &= 0xff >> (8 * emLen - emBits);
+  steps.push(`🎭 maskedDB = (00…00 || 01 || salt) ⊕ MGF1(H, ${db.length}) with the top ${8 * emLen - emBits} bit(s) cleared`);
+  
+  const em = concatBytes(maskedDB, h, Uint8Array.of(0xbc));
+  steps.push(`🧱 Encode EM = maskedDB || H || BC: ${bytesToHex(em)}`);
+  return em;
+}
+
+// EMSA-PSS-VERIFY from RFC 8017 §9.1.2; the salt length and hash must match the ones used to sign
+export async function emsaPSSVerify(mHash: Uint8Array, em: Uint8Array, emBits: number, options: PSSOptions, steps: string[]): Promise<boolean> {
+  const hLen = HASH_LENGTHS[options.hash];
+  const emLen = em.length;
+  if (emLen < hLen + options.saltLength + 2) {
+    steps.push(`❌ EM is ${emLen} bytes, too short for ${options.hash} with a ${options.saltLength}-byte salt`);
+    return false;
+  }
+  if (em[emLen - 1] !== 0xbc) {
+    steps.push(`❌ EM ends in ${bytesToHex(em.slice(-1))} instead of the trailer BC`);
+    return false;
+  }
+  
+  const maskedDB = em.slice(0, emLen - hLen - 1);
+  const h = em.slice(emLen - hLen - 1, emLen - 1);
+  const topBits = 8 * emLen - emBits;
+  if (maskedDB[0] >> (8 - topBits) !== 0) {
+    steps.push(`❌ The top ${topBits} bit(s) of EM are not zero`);
+    return false;
+  }
+  
+  const db = xorBytes(maskedDB, await mgf1(h, maskedDB.length, options.hash));
+  db[0] &= 0xff >> topBits;
+  steps.push(`🎭 Unmask DB = maskedDB ⊕ MGF1(H, ${db.length}) = ${bytesToHex(db)}`);
+  
+  const psLength = emLen - hLen - options.saltLength - 2;
+  if (db.slice(0, psLength).some(byte => byte !== 0) || db[psLength] !== 0x01) {
+    const separator = db.findIndex(byte => byte !== 0);
+    steps.push(db[separator] === 0x01
+      ? `❌ DB holds a ${db.length - separator - 1}-byte salt but ${options.saltLength} bytes were expected: the signature used a different salt length`
+      : `❌ DB does not start with 00…00 01: the signature used a different hash, or the message or signature was altered`);
+    return false;
+  }
+  
+  const salt = db.slice(psLength + 1);
+  steps.push(`🧂 Recovered ${options.saltLength}-byte salt: ${bytesToHex(salt, '') || '(empty)'}`);
+  
+  const expected = await pssHash(options.hash, mHash, salt);
+  steps.push(`#️⃣ H' = ${options.hash}(00×8 || mHash || salt) = ${bytesToHex(expected, '')}`);
+  
+  const valid = bytesEqual(h, expected);
+  steps.push(valid
+    ? `✅ H' equals the H field of EM: signature is valid`
+    : `❌ H' differs from H = ${bytesToHex(h, '')}: the message or signature was altered`);
+  return valid;
+}
+
+async function messageHash(message: string, hash: HashAlgorithm, steps: string[]): Promise<Uint8Array> {
+  const mHash = await digest(hash, new TextEncoder().encode(message));
+  steps.push(`#️⃣ Hash the message: mHash = ${hash}("${message}") = ${bytesToHex(mHash, '')}`);
+  return mHash;
+}
+
+// Sign a message: s = h^d mod n
+export async function rsaSign(
+  message: string,
+  d: bigint,
+  n: bigint,
+  mode: SignatureMode = 'pkcs1-v1_5',
+  pss: PSSOptions = DEFAULT_PSS_OPTIONS
+): Promise<{
+  signature: bigint;
+  steps: string[];
+}> {
+  const steps: string[] = [];
+  let h: bigint;
+  
+  if (mode === 'pss') {
+    const emBits = bitLength(n) - 1;
+    const em = await emsaPSSEncode(await messageHash(message, pss.hash, steps), emBits, pss, steps);
+    h = bytesToBigInt(em);
+    steps.push(`🔢 Read EM as an integer: h = ${h}`);
+  } else {
+    h = await signatureRepresentative(message, n, mode, steps);
+  }
+  
+  const signature = modularExponentiation(h, d, n);
+  steps.push(`✍️ Sign with the private key: s = ${h}^${d} mod ${n} = ${signature}`);
+  
+  return { signature, steps };
+}
+
+// Verify a signature: recompute h from the message and compare it with s^e mod n
+export async function rsaVerify(
+  message: string,
+  signature: bigint,
+  e: bigint,
+  n: bigint,
+  mode: SignatureMode = 'pkcs1-v1_5',
+  pss: PSSOptions = DEFAULT_PSS_OPTIONS
+): Promise<{
+  valid: boolean;
+  steps: string[];
+}> {
+  const steps: string[] = [];
+  
+  if (signature < 0n || signature >= n) {
+    steps.push(`❌ Signature ${signature} is outside the range 0 ≤ s < n`);
+    return { valid: false, steps };
+  }
+  
+  const recovered = modularExponentiation(signature, e, n);
+  steps.push(`🔓 Recover with the public key: s^${e} mod ${n} = ${recovered}`);
+  
+  if (mode === 'pss') {
+    const emBits = bitLength(n) - 1;
+    if (bitLength(recovered) > emBits) {
+      steps.push(`❌ s^e mod n is longer than ${emBits} bits, so it cannot be a PSS encoding`);
+      return { valid: false, steps };
+    }
+    const em = bigIntToBytes(recovered, Math.ceil(emBits / 8));
+    steps.push(`🧱 Read it as EM: ${bytesToHex(em)}`);
+    const mHash = await messageHash(message, pss.hash, steps);
+    return { valid: await emsaPSSVerify(mHash, em, emBits, pss, steps), steps };
+  }
+  
+  const expected = await signatureRepresentative(message, n, mode, steps);
+  
+  // Compare as fixed-length byte strings, the way PKCS#1 specifies
+  const k = byteLength(n);
+  const valid = bytesEqual(bigIntToBytes(recovered, k), bigIntToBytes(expected, k));
+  steps.push(valid
+    ? `✅ s^e mod n equals the expected value: signature is valid`
+    : `❌ s^e mod n = ${recovered} but expected ${expected}: the message or signature was altered`);
+  
+  return { valid, steps };
+}
+
+// Sign with crypto.subtle and verify here, then sign here and verify with crypto.subtle
+export async function crossCheckPSS(message: string, keyPair: RSAKeyPair, pss: PSSOptions = DEFAULT_PSS_OPTIONS): Promise<{
+  webCryptoVerifiedHere: boolean;
+  hereVerifiedByWebCrypto: boolean;
+  steps: string[];
+}> {
+  const steps: string[] = [];
+  const algorithm = { name: 'RSA-PSS', hash: pss.hash };
+  const { privateKey, publicKey } = await importIntoWebCrypto(keyPair, algorithm, { privateKey: ['sign'], publicKey: ['verify'] });
+  steps.push(`🔑 Imported (n, e, d, p, q, dP, dQ, qInv) into crypto.subtle as an RSA-PSS ${pss.hash} key`);
+  
+  const data = new TextEncoder().encode(message);
+  const params = { name: 'RSA-PSS', saltLength: pss.saltLength };
+  const webCryptoSignature = bytesToBigInt(new Uint8Array(await crypto.subtle.sign(params, privateKey, data)));
+  steps.push(`🌐 crypto.subtle signature: ${webCryptoSignature}`);
+  const { valid: webCryptoVerifiedHere } = await rsaVerify(message, webCryptoSignature, keyPair.e, keyPair.n, 'pss', pss);
+  steps.push(webCryptoVerifiedHere
+    ? `✅ rsaVerify accepts the crypto.subtle signature`
+    : `❌ rsaVerify rejects the crypto.subtle signature`);
+  
+  const { signature } = await rsaSign(message, keyPair.d, keyPair.n, 'pss', pss);
+  steps.push(`✍️ rsaSign signature: ${signature}`);
+  const hereVerifiedByWebCrypto = await crypto.subtle.verify(params, publicKey, bigIntToBytes(signature, byteLength(keyPair.n)), data);
+  steps.push(hereVerifiedByWebCrypto
+    ? `✅ crypto.subtle accepts the rsaSign signature`
+    : `❌ crypto.subtle rejects the rsaSign signature`);
+  
+  return { webCryptoVerifiedHere, hereVerifiedByWebCrypto, steps };
+}
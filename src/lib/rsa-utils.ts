@@ -4,29 +4,407 @@
  * Implements all RSA algorithms from scratch for educational transparency
  */
 
-// Check if a number is prime using trial division
-export function isPrime(n: bigint): boolean {
-  if (n <= 1n) return false;
-  if (n <= 3n) return true;
-  if (n % 2n === 0n || n % 3n === 0n) return false;
-  
-  for (let i = 5n; i * i <= n; i += 6n) {
-    if (n % i === 0n || n % (i + 2n) === 0n) return false;
+import {
+  MESSAGE_ENCODINGS,
+  describeBlock,
+  maxBlockSize,
+  packBlocks,
+  unpackBlocks,
+  type MessageBlock,
+  type MessageEncodingId,
+} from './message-encoding';
+
+// Sieve of Eratosthenes for the small primes used in trial division
+function sieveSmallPrimes(limit: number): bigint[] {
+  const composite = new Uint8Array(limit + 1);
+  const primes: bigint[] = [];
+  for (let i = 2; i <= limit; i++) {
+    if (composite[i]) continue;
+    primes.push(BigInt(i));
+    for (let j = i * i; j <= limit; j += i) composite[j] = 1;
+  }
+  return primes;
+}
+
+// All primes below 1000, used to cheaply reject most composites
+export const SMALL_PRIMES: bigint[] = sieveSmallPrimes(1000);
+const LARGEST_SMALL_PRIME = SMALL_PRIMES[SMALL_PRIMES.length - 1];
+
+// Number of bits needed to write n in binary
+export function bitLength(n: bigint): number {
+  if (n < 0n) n = -n;
+  return n === 0n ? 0 : n.toString(2).length;
+}
+
+// Uniform random BigInt in [min, max] drawn from crypto.getRandomValues
+export function randomBigIntInRange(min: bigint, max: bigint): bigint {
+  const range = max - min + 1n;
+  if (range <= 0n) throw new RangeError(`Empty range [${min}, ${max}]`);
+  if (range === 1n) return min;
+
+  const bits = bitLength(range - 1n);
+  const bytes = new Uint8Array(Math.ceil(bits / 8));
+  const topMask = 0xff >> (bytes.length * 8 - bits);
+
+  // Rejection sampling keeps the distribution uniform
+  while (true) {
+    crypto.getRandomValues(bytes);
+    bytes[0] &= topMask;
+    let value = 0n;
+    for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+    if (value < range) return min + value;
+  }
+}
+
+export type PrimalityMethod = 'miller-rabin' | 'baillie-psw';
+export type PrimalityVerdict = 'composite' | 'probable-prime' | 'proven-prime';
+
+// One check performed while testing n: a trial divisor, a Miller–Rabin base or the Lucas parameter D
+export interface PrimalityWitness {
+  test: 'trial-division' | 'miller-rabin' | 'strong-lucas';
+  base: bigint;
+  passed: boolean;
+  detail: string;
+}
+
+export interface PrimalityResult {
+  n: bigint;
+  method: PrimalityMethod;
+  verdict: PrimalityVerdict;
+  isProbablePrime: boolean;
+  witnesses: PrimalityWitness[];
+  steps: string[];
+}
+
+// Largest n for which Miller–Rabin with the first k prime bases is deterministic
+// (Jaeschke 1993, Sorenson & Webster 2015)
+const DETERMINISTIC_MR_BOUNDS: Array<[bigint, number]> = [
+  [2047n, 1],
+  [1373653n, 2],
+  [25326001n, 3],
+  [3215031751n, 4],
+  [2152302898747n, 5],
+  [3474749660383n, 6],
+  [341550071728321n, 7],
+  [3825123056546413051n, 9],
+  [318665857834031151167461n, 12],
+  [3317044064679887385961981n, 13],
+];
+
+// No Baillie–PSW pseudoprime exists below 2^64 (Feitsma & Galway)
+const BPSW_VERIFIED_BOUND = 1n << 64n;
+
+function primalityResult(
+  n: bigint,
+  method: PrimalityMethod,
+  verdict: PrimalityVerdict,
+  witnesses: PrimalityWitness[],
+  steps: string[]
+): PrimalityResult {
+  const labels: Record<PrimalityVerdict, string> = {
+    'composite': '❌ Verdict: composite',
+    'probable-prime': '🟡 Verdict: probably prime',
+    'proven-prime': '✅ Verdict: proven prime',
+  };
+  steps.push(labels[verdict]);
+  return { n, method, verdict, isProbablePrime: verdict !== 'composite', witnesses, steps };
+}
+
+// Trial division by SMALL_PRIMES; returns a verdict when it settles the question
+function trialDivision(n: bigint, witnesses: PrimalityWitness[], steps: string[]): PrimalityVerdict | null {
+  if (n <= 1n) {
+    steps.push(`❌ ${n} ≤ 1 is neither prime nor composite`);
+    return 'composite';
+  }
+
+  for (const prime of SMALL_PRIMES) {
+    if (n === prime) {
+      steps.push(`✓ ${n} is in the table of primes below 1000`);
+      return 'proven-prime';
+    }
+    if (n % prime === 0n) {
+      witnesses.push({ test: 'trial-division', base: prime, passed: false, detail: `${n} = ${prime} × ${n / prime}` });
+      steps.push(`❌ Trial division: ${prime} divides ${n} (${n} = ${prime} × ${n / prime})`);
+      return 'composite';
+    }
+  }
+
+  if (n <= LARGEST_SMALL_PRIME * LARGEST_SMALL_PRIME) {
+    steps.push(`✓ Trial division: no prime ≤ √${n} divides ${n}`);
+    return 'proven-prime';
+  }
+
+  steps.push(`🔍 Trial division: no prime below 1000 divides ${n}`);
+  return null;
+}
+
+// Write n - 1 = d × 2^s with d odd
+function decomposeOddPart(n: bigint): [bigint, number] {
+  let d = n - 1n;
+  let s = 0;
+  while (d % 2n === 0n) {
+    d >>= 1n;
+    s++;
+  }
+  return [d, s];
+}
+
+// One strong-probable-prime round of Miller–Rabin for base a
+function millerRabinRound(n: bigint, a: bigint, d: bigint, s: number): PrimalityWitness {
+  let x = modularExponentiation(a, d, n);
+  if (x === 1n || x === n - 1n) {
+    return { test: 'miller-rabin', base: a, passed: true, detail: `${a}^${d} ≡ ${x === 1n ? '1' : '-1'} (mod n)` };
+  }
+
+  for (let r = 1; r < s; r++) {
+    x = (x * x) % n;
+    if (x === n - 1n) {
+      return { test: 'miller-rabin', base: a, passed: true, detail: `${a}^(${d}·2^${r}) ≡ -1 (mod n)` };
+    }
+  }
+
+  return { test: 'miller-rabin', base: a, passed: false, detail: `${a} is a witness: no -1 in the squaring chain` };
+}
+
+// Miller–Rabin test with the given number of rounds.
+// The first rounds use the fixed prime bases 2, 3, 5, …; any further rounds use random bases.
+// If enough fixed bases were used for n's size, the result is a proof rather than a probability.
+export function millerRabinTest(n: bigint, rounds: number = 20): PrimalityResult {
+  const witnesses: PrimalityWitness[] = [];
+  const steps: string[] = [];
+
+  const settled = trialDivision(n, witnesses, steps);
+  if (settled) return primalityResult(n, 'miller-rabin', settled, witnesses, steps);
+
+  const [d, s] = decomposeOddPart(n);
+  steps.push(`📐 Write n - 1 = ${d} × 2^${s}`);
+
+  const totalRounds = Math.max(1, Math.floor(rounds));
+  for (let i = 0; i < totalRounds; i++) {
+    const a = i < DETERMINISTIC_MR_BOUNDS[DETERMINISTIC_MR_BOUNDS.length - 1][1]
+      ? SMALL_PRIMES[i]
+      : randomBigIntInRange(2n, n - 2n);
+    const witness = millerRabinRound(n, a, d, s);
+    witnesses.push(witness);
+    steps.push(`${witness.passed ? '✓' : '❌'} Miller–Rabin base ${a}: ${witness.detail}`);
+    if (!witness.passed) return primalityResult(n, 'miller-rabin', 'composite', witnesses, steps);
+  }
+
+  const fixedBases = Math.min(totalRounds, DETERMINISTIC_MR_BOUNDS[DETERMINISTIC_MR_BOUNDS.length - 1][1]);
+  const bound = DETERMINISTIC_MR_BOUNDS.find(([limit]) => n < limit);
+  if (bound && fixedBases >= bound[1]) {
+    steps.push(`📜 The first ${bound[1]} prime bases are deterministic for n < ${bound[0]}`);
+    return primalityResult(n, 'miller-rabin', 'proven-prime', witnesses, steps);
+  }
+
+  steps.push(`🎲 ${totalRounds} rounds passed: error probability ≤ 4^-${totalRounds}`);
+  return primalityResult(n, 'miller-rabin', 'probable-prime', witnesses, steps);
+}
+
+// Jacobi symbol (a/n) for odd positive n
+export function jacobiSymbol(a: bigint, n: bigint): number {
+  a = ((a % n) + n) % n;
+  let result = 1;
+  while (a !== 0n) {
+    while (a % 2n === 0n) {
+      a /= 2n;
+      const r = n % 8n;
+      if (r === 3n || r === 5n) result = -result;
+    }
+    [a, n] = [n, a];
+    if (a % 4n === 3n && n % 4n === 3n) result = -result;
+    a %= n;
+  }
+  return n === 1n ? result : 0;
+}
+
+// Integer square root by Newton's method
+export function integerSqrt(n: bigint): bigint {
+  if (n < 2n) return n;
+  let x = 1n << BigInt(Math.ceil(bitLength(n) / 2));
+  while (true) {
+    const y = (x + n / x) >> 1n;
+    if (y >= x) return x;
+    x = y;
   }
-  
-  return true;
+}
+
+// Strong Lucas probable-prime test with Selfridge's parameters (P = 1, Q = (1 - D) / 4)
+function strongLucasTest(n: bigint, steps: string[]): PrimalityWitness {
+  let D = 5n;
+  while (jacobiSymbol(D, n) !== -1) {
+    D = D > 0n ? -(D + 2n) : -D + 2n;
+  }
+  const P = 1n;
+  const Q = (1n - D) / 4n;
+  steps.push(`📐 Selfridge parameters: D = ${D}, P = ${P}, Q = ${Q} with (D/n) = -1`);
+
+  const mod = (x: bigint) => ((x % n) + n) % n;
+  const half = (x: bigint) => mod(x % 2n === 0n ? x / 2n : (x + n) / 2n);
+
+  // n + 1 = d × 2^s with d odd
+  let d = n + 1n;
+  let s = 0;
+  while (d % 2n === 0n) {
+    d >>= 1n;
+    s++;
+  }
+
+  // Walk the bits of d computing U_k, V_k and Q^k mod n
+  let U = 1n;
+  let V = P;
+  let Qk = mod(Q);
+  const bits = d.toString(2);
+  for (let i = 1; i < bits.length; i++) {
+    U = mod(U * V);
+    V = mod(V * V - 2n * Qk);
+    Qk = mod(Qk * Qk);
+    if (bits[i] === '1') {
+      [U, V] = [half(P * U + V), half(D * U + P * V)];
+      Qk = mod(Qk * Q);
+    }
+  }
+
+  if (U === 0n || V === 0n) {
+    return { test: 'strong-lucas', base: D, passed: true, detail: `U_${d} ≡ 0 or V_${d} ≡ 0 (mod n)` };
+  }
+  for (let r = 1; r < s; r++) {
+    V = mod(V * V - 2n * Qk);
+    Qk = mod(Qk * Qk);
+    if (V === 0n) {
+      return { test: 'strong-lucas', base: D, passed: true, detail: `V_(${d}·2^${r}) ≡ 0 (mod n)` };
+    }
+  }
+
+  return { test: 'strong-lucas', base: D, passed: false, detail: `no zero in the Lucas chain for D = ${D}` };
+}
+
+// Baillie–PSW test: Miller–Rabin base 2 followed by a strong Lucas test.
+// Deterministic, with no known counterexample; proven correct for n < 2^64.
+export function bailliePSWTest(n: bigint): PrimalityResult {
+  const witnesses: PrimalityWitness[] = [];
+  const steps: string[] = [];
+
+  const settled = trialDivision(n, witnesses, steps);
+  if (settled) return primalityResult(n, 'baillie-psw', settled, witnesses, steps);
+
+  const [d, s] = decomposeOddPart(n);
+  steps.push(`📐 Write n - 1 = ${d} × 2^${s}`);
+  const base2 = millerRabinRound(n, 2n, d, s);
+  witnesses.push(base2);
+  steps.push(`${base2.passed ? '✓' : '❌'} Miller–Rabin base 2: ${base2.detail}`);
+  if (!base2.passed) return primalityResult(n, 'baillie-psw', 'composite', witnesses, steps);
+
+  const root = integerSqrt(n);
+  if (root * root === n) {
+    steps.push(`❌ ${n} = ${root}² is a perfect square`);
+    return primalityResult(n, 'baillie-psw', 'composite', witnesses, steps);
+  }
+
+  const lucas = strongLucasTest(n, steps);
+  witnesses.push(lucas);
+  steps.push(`${lucas.passed ? '✓' : '❌'} Strong Lucas test: ${lucas.detail}`);
+  if (!lucas.passed) return primalityResult(n, 'baillie-psw', 'composite', witnesses, steps);
+
+  if (n < BPSW_VERIFIED_BOUND) {
+    steps.push(`📜 Baillie–PSW has been verified to have no pseudoprimes below 2^64`);
+    return primalityResult(n, 'baillie-psw', 'proven-prime', witnesses, steps);
+  }
+  return primalityResult(n, 'baillie-psw', 'probable-prime', witnesses, steps);
+}
+
+// Run the chosen primality test
+export function testPrimality(
+  n: bigint,
+  options: { method?: PrimalityMethod; rounds?: number } = {}
+): PrimalityResult {
+  const { method = 'baillie-psw', rounds = 20 } = options;
+  return method === 'miller-rabin' ? millerRabinTest(n, rounds) : bailliePSWTest(n);
+}
+
+// Check if a number is prime (Baillie–PSW, fast even for hundreds of digits)
+export function isPrime(n: bigint): boolean {
+  return bailliePSWTest(n).isProbablePrime;
 }
 
 // Generate a random prime number within a range
 export function generateRandomPrime(min: bigint, max: bigint): bigint {
   let candidate: bigint;
   do {
-    candidate = BigInt(Math.floor(Math.random() * Number(max - min + 1n))) + min;
+    candidate = randomBigIntInRange(min, max);
   } while (!isPrime(candidate));
   
   return candidate;
 }
 
+export const MIN_PRIME_BITS = 8;
+export const MAX_PRIME_BITS = 4096;
+
+export interface PrimeGenerationResult {
+  prime: bigint;
+  bits: number;
+  candidates: number;
+  sieved: number;
+  steps: string[];
+}
+
+// Random odd number of exactly `bits` bits with the top two bits set,
+// so that the product of two such primes has exactly 2 × bits bits
+function randomPrimeCandidate(bits: number): bigint {
+  const bytes = new Uint8Array(Math.ceil(bits / 8));
+  crypto.getRandomValues(bytes);
+  let value = 0n;
+  for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+  value &= (1n << BigInt(bits)) - 1n;
+  return value | (3n << BigInt(bits - 2)) | 1n;
+}
+
+// Cheap pre-filter: reject candidates with a factor below 1000
+function passesSmallPrimeSieve(candidate: bigint): boolean {
+  for (const prime of SMALL_PRIMES) {
+    if (candidate === prime) return true;
+    if (candidate % prime === 0n) return false;
+  }
+  return true;
+}
+
+// Generate a prime of the given bit length from cryptographically secure randomness.
+// Yields to the event loop between expensive tests so the page stays responsive.
+export async function generatePrime(
+  bits: number,
+  onProgress?: (candidates: number) => void
+): Promise<PrimeGenerationResult> {
+  if (!Number.isInteger(bits) || bits < MIN_PRIME_BITS || bits > MAX_PRIME_BITS) {
+    throw new RangeError(`Bit length must be an integer between ${MIN_PRIME_BITS} and ${MAX_PRIME_BITS}`);
+  }
+
+  let candidates = 0;
+  let sieved = 0;
+  while (true) {
+    const candidate = randomPrimeCandidate(bits);
+    candidates++;
+
+    if (!passesSmallPrimeSieve(candidate)) {
+      sieved++;
+      continue;
+    }
+
+    onProgress?.(candidates);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const result = bailliePSWTest(candidate);
+    if (result.isProbablePrime) {
+      const steps = [
+        `🎲 Drew ${candidates} random odd ${bits}-bit candidates from crypto.getRandomValues`,
+        `🧹 Small-prime sieve rejected ${sieved} of them without a full test`,
+        `🔬 Baillie–PSW ran on ${candidates - sieved} candidates`,
+        `✓ Found ${bits}-bit prime ${candidate} (${result.verdict === 'proven-prime' ? 'proven' : 'probable'})`,
+      ];
+      return { prime: candidate, bits, candidates, sieved, steps };
+    }
+  }
+}
+
 // Greatest Common Divisor using Euclidean algorithm
 export function gcd(a: bigint, b: bigint): bigint {
   while (b !== 0n) {
@@ -35,14 +413,52 @@ export function gcd(a: bigint, b: bigint): bigint {
   return a;
 }
 
-// Extended Euclidean Algorithm to find modular inverse
-export function extendedGcd(a: bigint, m: bigint): [bigint, bigint, bigint] {
-  if (a === 0n) return [m, 0n, 1n];
+// Least Common Multiple: lcm(a, b) = a × b / gcd(a, b)
+export function lcm(a: bigint, b: bigint): bigint {
+  if (a === 0n || b === 0n) return 0n;
+  const product = a * b;
+  return (product < 0n ? -product : product) / gcd(a, b);
+}
+
+// One row of the extended Euclidean table: r = s × a + t × b, and q = previous r ÷ this r
+export interface BezoutRow {
+  q: bigint | null;
+  r: bigint;
+  s: bigint;
+  t: bigint;
+}
+
+export interface ExtendedGcdTable {
+  a: bigint;
+  b: bigint;
+  gcd: bigint;
+  x: bigint;
+  y: bigint;
+  rows: BezoutRow[];
+}
+
+// Iterative Extended Euclidean Algorithm, keeping every row of the table
+export function extendedGcdTable(a: bigint, b: bigint): ExtendedGcdTable {
+  const rows: BezoutRow[] = [
+    { q: null, r: a, s: 1n, t: 0n },
+    { q: null, r: b, s: 0n, t: 1n },
+  ];
   
-  const [gcd, x1, y1] = extendedGcd(m % a, a);
-  const x = y1 - (m / a) * x1;
-  const y = x1;
+  let [prev, curr] = rows;
+  while (curr.r !== 0n) {
+    const q = prev.r / curr.r;
+    const next: BezoutRow = { q, r: prev.r - q * curr.r, s: prev.s - q * curr.s, t: prev.t - q * curr.t };
+    rows.push(next);
+    [prev, curr] = [curr, next];
+  }
   
+  // prev holds the last non-zero remainder: gcd = s × a + t × b
+  return { a, b, gcd: prev.r, x: prev.s, y: prev.t, rows };
+}
+
+// Extended Euclidean Algorithm to find modular inverse
+export function extendedGcd(a: bigint, m: bigint): [bigint, bigint, bigint] {
+  const { gcd, x, y } = extendedGcdTable(a, m);
   return [gcd, x, y];
 }
 
@@ -73,19 +489,65 @@ export function modularExponentiation(base: bigint, exponent: bigint, modulus: b
   return result;
 }
 
-// Calculate Euler's totient function φ(n) = (p-1)(q-1)
-export function eulerTotient(p: bigint, q: bigint): bigint {
-  return (p - 1n) * (q - 1n);
+// One bit of the exponent in right-to-left binary exponentiation
+export interface SquareMultiplyRow {
+  bitIndex: number;
+  bit: 0 | 1;
+  base: bigint;
+  multiplied: boolean;
+  result: bigint;
+}
+
+export interface ModularExponentiationTrace {
+  base: bigint;
+  exponent: bigint;
+  modulus: bigint;
+  result: bigint;
+  rows: SquareMultiplyRow[];
+}
+
+// Same algorithm as modularExponentiation, recording the running base and result at every bit
+export function traceModularExponentiation(base: bigint, exponent: bigint, modulus: bigint): ModularExponentiationTrace {
+  const trace: ModularExponentiationTrace = { base, exponent, modulus, result: 0n, rows: [] };
+  if (modulus === 1n) return trace;
+  
+  let result = 1n;
+  let current = base % modulus;
+  let bitIndex = 0;
+  
+  while (exponent > 0n) {
+    const bit = exponent % 2n === 1n ? 1 : 0;
+    if (bit) {
+      result = (result * current) % modulus;
+    }
+    trace.rows.push({ bitIndex, bit, base: current, multiplied: bit === 1, result });
+    exponent = exponent >> 1n;
+    current = (current * current) % modulus;
+    bitIndex++;
+  }
+  
+  trace.result = result;
+  return trace;
+}
+
+// Calculate Euler's totient function φ(n) = (p-1)(q-1)…, one factor per distinct prime
+export function eulerTotient(...primes: bigint[]): bigint {
+  return primes.reduce((product, prime) => product * (prime - 1n), 1n);
+}
+
+// Calculate Carmichael's function λ(n) = lcm(p-1, q-1, …)
+export function carmichaelLambda(...primes: bigint[]): bigint {
+  return primes.reduce((result, prime) => lcm(result, prime - 1n), 1n);
 }
 
-// Convert string to array of BigInt values (ASCII encoding)
+// Convert string to array of BigInt values (Unicode code points)
 export function stringToBigIntArray(message: string): bigint[] {
-  return Array.from(message).map(char => BigInt(char.charCodeAt(0)));
+  return MESSAGE_ENCODINGS['code-points'].encode(message).flatMap(char => char.symbols);
 }
 
 // Convert array of BigInt values back to string
 export function bigIntArrayToString(numbers: bigint[]): string {
-  return numbers.map(num => String.fromCharCode(Number(num))).join('');
+  return MESSAGE_ENCODINGS['code-points'].decode(numbers);
 }
 
 // Encrypt a single character (as BigInt)
@@ -104,88 +566,463 @@ export interface RSAKeyPair {
   q: bigint;
   n: bigint;
   phi: bigint;
+  lambda: bigint;
   e: bigint;
   d: bigint;
+  // Which totient d was reduced by, and both candidate values for comparison
+  privateExponentModulus: PrivateExponentModulus;
+  dPhi: bigint;
+  dLambda: bigint;
+  // Chinese Remainder Theorem parameters (PKCS#1 exponent1, exponent2, coefficient)
+  dP: bigint;
+  dQ: bigint;
+  qInv: bigint;
+  // Primes beyond p and q in multi-prime RSA; empty for two-prime keys
+  otherPrimes: OtherPrimeInfo[];
+  // Extended Euclid table for (modulus, e) whose t column yields d
+  inverseTable: ExtendedGcdTable;
   steps: string[];
 }
 
-export function generateRSAKeys(p: bigint, q: bigint): RSAKeyPair | null {
+// PKCS#1 OtherPrimeInfo: rᵢ, dᵢ = d mod (rᵢ-1) and tᵢ = (r₁·…·rᵢ₋₁)⁻¹ mod rᵢ
+export interface OtherPrimeInfo {
+  prime: bigint;
+  exponent: bigint;
+  coefficient: bigint;
+}
+
+// Name of the i-th prime factor in step traces: p, q, r₃, r₄, …
+export function primeLabel(index: number): string {
+  if (index === 0) return 'p';
+  if (index === 1) return 'q';
+  return 'r' + String(index + 1).replace(/\d/g, digit => '₀₁₂₃₄₅₆₇₈₉'[Number(digit)]);
+}
+
+// φ(n) is the textbook choice; λ(n) is what PKCS#1 and OpenSSL use
+export type PrivateExponentModulus = 'phi' | 'lambda';
+
+// The commonly used public exponents: Fermat primes F0, F2 and F4
+export const STANDARD_PUBLIC_EXPONENTS: bigint[] = [3n, 17n, 65537n];
+
+// How the public exponent e is chosen
+export type PublicExponentChoice =
+  | { mode: 'explicit'; value: bigint }
+  | { mode: 'smallest' }
+  | { mode: 'random' };
+
+export interface RSAKeyOptions {
+  publicExponent?: PublicExponentChoice;
+  privateExponentModulus?: PrivateExponentModulus;
+}
+
+// Pick e with 1 < e < φ and gcd(e, φ) = 1, recording each rejected candidate in steps
+export function choosePublicExponent(phi: bigint, choice: PublicExponentChoice, steps: string[]): bigint | null {
+  if (phi <= 3n) {
+    steps.push(`❌ Error: φ(n) = ${phi} leaves no valid e with 1 < e < φ(n). Choose larger primes.`);
+    return null;
+  }
+
+  if (choice.mode === 'explicit') {
+    const e = choice.value;
+    if (e <= 1n || e >= phi) {
+      steps.push(`❌ Error: e = ${e} must satisfy 1 < e < φ(n) = ${phi}`);
+      return null;
+    }
+    const divisor = gcd(e, phi);
+    if (divisor !== 1n) {
+      steps.push(`❌ Error: gcd(${e}, ${phi}) = ${divisor} ≠ 1. Choose a different e or different primes.`);
+      return null;
+    }
+    steps.push(`🔑 Choose e = ${e}, verify gcd(${e}, ${phi}) = 1 ✓`);
+    return e;
+  }
+
+  if (choice.mode === 'smallest') {
+    // φ is even, so every even e is rejected; start at 3 and try odd candidates
+    for (let e = 3n; e < phi; e += 2n) {
+      const divisor = gcd(e, phi);
+      if (divisor === 1n) {
+        steps.push(`🔑 Smallest valid e = ${e}: gcd(${e}, ${phi}) = 1 ✓`);
+        return e;
+      }
+      steps.push(`↩️ Try e = ${e}: gcd(${e}, ${phi}) = ${divisor} ≠ 1, rejected`);
+    }
+  } else {
+    while (true) {
+      const e = randomBigIntInRange(3n, phi - 1n);
+      const divisor = gcd(e, phi);
+      if (divisor === 1n) {
+        steps.push(`🔑 Random e = ${e}: gcd(${e}, ${phi}) = 1 ✓`);
+        return e;
+      }
+      steps.push(`↩️ Random e = ${e}: gcd(${e}, ${phi}) = ${divisor} ≠ 1, rejected`);
+    }
+  }
+
+  steps.push(`❌ Error: no e with 1 < e < ${phi} is coprime to φ(n)`);
+  return null;
+}
+
+export function generateRSAKeys(p: bigint, q: bigint, options: RSAKeyOptions = {}): RSAKeyPair | null {
+  return generateMultiPrimeRSAKeys([p, q], options);
+}
+
+// Multi-prime RSA (RFC 8017 §3): n is the product of two or more distinct primes
+export function generateMultiPrimeRSAKeys(primes: bigint[], options: RSAKeyOptions = {}): RSAKeyPair | null {
+  const { publicExponent = { mode: 'explicit', value: 65537n }, privateExponentModulus = 'phi' } = options;
   const steps: string[] = [];
+  const labels = primes.map((_, index) => primeLabel(index));
+  
+  if (primes.length < 2) {
+    steps.push("❌ Error: RSA needs at least two primes");
+    return null;
+  }
   
-  if (!isPrime(p) || !isPrime(q)) {
-    steps.push("❌ Error: Both p and q must be prime numbers");
+  if (!primes.every(isPrime)) {
+    steps.push(`❌ Error: ${labels.join(', ')} must all be prime numbers`);
     return null;
   }
   
-  steps.push(`✓ Prime validation: p = ${p}, q = ${q}`);
+  if (new Set(primes).size !== primes.length) {
+    steps.push("❌ Error: The primes must be distinct");
+    return null;
+  }
   
-  const n = p * q;
-  steps.push(`📐 Calculate n = p × q = ${p} × ${q} = ${n}`);
+  const [p, q] = primes;
+  steps.push(`✓ Prime validation: ${primes.map((prime, index) => `${labels[index]} = ${prime}`).join(', ')}`);
   
-  const phi = eulerTotient(p, q);
-  steps.push(`🔢 Calculate φ(n) = (p-1) × (q-1) = ${p-1n} × ${q-1n} = ${phi}`);
+  const n = primes.reduce((product, prime) => product * prime, 1n);
+  steps.push(`📐 Calculate n = ${labels.join(' × ')} = ${primes.join(' × ')} = ${n}`);
   
-  // Choose e = 65537 (commonly used value)
-  const e = 65537n;
-  if (gcd(e, phi) !== 1n) {
-    steps.push(`❌ Error: gcd(${e}, ${phi}) ≠ 1. Choose different primes.`);
-    return null;
+  const phi = eulerTotient(...primes);
+  steps.push(`🔢 Calculate φ(n) = ${labels.map(label => `(${label}-1)`).join(' × ')} = ${primes.map(prime => prime - 1n).join(' × ')} = ${phi}`);
+  
+  const lambda = carmichaelLambda(...primes);
+  if (privateExponentModulus === 'lambda') {
+    steps.push(`🔢 Calculate λ(n) = lcm(${labels.map(label => `${label}-1`).join(', ')}) = lcm(${primes.map(prime => prime - 1n).join(', ')}) = ${lambda}`);
   }
-  steps.push(`🔑 Choose e = ${e}, verify gcd(${e}, ${phi}) = 1 ✓`);
   
-  const d = modularInverse(e, phi);
-  if (!d) {
+  const e = choosePublicExponent(phi, publicExponent, steps);
+  if (e === null) return null;
+  
+  // gcd(e, φ) = 1 implies gcd(e, λ) = 1, so both inverses exist
+  const dPhi = modularInverse(e, phi);
+  const dLambda = modularInverse(e, lambda);
+  if (!dPhi || !dLambda) {
     steps.push(`❌ Error: Cannot compute modular inverse of ${e} mod ${phi}`);
     return null;
   }
-  steps.push(`🔐 Calculate d ≡ e⁻¹ (mod φ(n)) = ${d}`);
-  steps.push(`✅ Verification: ${e} × ${d} ≡ 1 (mod ${phi})`);
   
-  return { p, q, n, phi, e, d, steps };
+  let d: bigint;
+  if (privateExponentModulus === 'lambda') {
+    d = dLambda;
+    steps.push(`🔐 Calculate d ≡ e⁻¹ (mod λ(n)) = ${d}`);
+    steps.push(`✅ Verification: ${e} × ${d} ≡ 1 (mod ${lambda})`);
+    steps.push(dPhi === dLambda
+      ? `⚖️ For comparison, d ≡ e⁻¹ (mod φ(n)) = ${dPhi}: the same value this time`
+      : `⚖️ For comparison, d ≡ e⁻¹ (mod φ(n)) = ${dPhi}, which differs from d(λ) = ${dLambda} by ${(dPhi - dLambda) / lambda} × λ(n)`);
+    
+    // Both exponents invert e modulo λ(n), so both undo encryption
+    const m = n > 3n ? randomBigIntInRange(2n, n - 2n) : 1n;
+    const c = modularExponentiation(m, e, n);
+    steps.push(`🧪 Test message m = ${m}: c = ${m}^${e} mod ${n} = ${c}`);
+    const mPhi = modularExponentiation(c, dPhi, n);
+    const mLambda = modularExponentiation(c, dLambda, n);
+    steps.push(`   c^d(φ) mod n = ${mPhi} ${mPhi === m ? '✓' : '❌'}, c^d(λ) mod n = ${mLambda} ${mLambda === m ? '✓' : '❌'}`);
+  } else {
+    d = dPhi;
+    steps.push(`🔐 Calculate d ≡ e⁻¹ (mod φ(n)) = ${d}`);
+    steps.push(`✅ Verification: ${e} × ${d} ≡ 1 (mod ${phi})`);
+  }
+  
+  const dP = d % (p - 1n);
+  const dQ = d % (q - 1n);
+  const qInv = modularInverse(q, p);
+  steps.push(`🧮 CRT parameters: dP = d mod (p-1) = ${dP}, dQ = d mod (q-1) = ${dQ}, qInv = q⁻¹ mod p = ${qInv}`);
+  
+  const otherPrimes: OtherPrimeInfo[] = [];
+  let product = p * q;
+  primes.slice(2).forEach((prime, offset) => {
+    const label = labels[offset + 2];
+    const exponent = d % (prime - 1n);
+    const coefficient = modularInverse(product % prime, prime);
+    steps.push(`🧮 CRT parameters for ${label}: d${label.slice(1)} = d mod (${label}-1) = ${exponent}, t${label.slice(1)} = (${labels.slice(0, offset + 2).join('·')})⁻¹ mod ${label} = ${coefficient}`);
+    otherPrimes.push({ prime, exponent, coefficient });
+    product *= prime;
+  });
+  
+  const inverseTable = extendedGcdTable(privateExponentModulus === 'lambda' ? lambda : phi, e);
+  
+  return { p, q, n, phi, lambda, e, d, privateExponentModulus, dPhi, dLambda, dP, dQ, qInv, otherPrimes, inverseTable, steps };
+}
+
+// A key typed in directly: p and q are unknown, so only n, e and optionally d are available
+export interface RSAPartialKey {
+  n: bigint;
+  e: bigint;
+  d: bigint | null;
+  steps: string[];
+}
+
+export function createPartialKey(n: bigint, e: bigint, d: bigint | null = null): RSAPartialKey {
+  const steps: string[] = [];
+  steps.push(`📥 Public key entered directly: n = ${n}, e = ${e}`);
+  steps.push(`❔ p and q are unknown, so φ(n), λ(n) and the CRT parameters cannot be computed. Finding them means factoring n, which is what RSA relies on being hard.`);
+  
+  if (d === null) {
+    steps.push(`🔒 No private exponent entered: this key can encrypt but not decrypt`);
+    return { n, e, d, steps };
+  }
+  
+  steps.push(`📥 Private exponent entered directly: d = ${d}`);
+  // Without the factors e · d ≡ 1 (mod λ(n)) cannot be checked, so test a message instead
+  const m = n > 3n ? randomBigIntInRange(2n, n - 2n) : 1n;
+  const c = modularExponentiation(m, e, n);
+  const recovered = modularExponentiation(c, d, n);
+  steps.push(`🧪 Test message m = ${m}: c = ${m}^${e} mod ${n} = ${c}, c^${d} mod ${n} = ${recovered} ${recovered === m ? '✓' : '❌'}`);
+  if (recovered !== m) {
+    steps.push(`⚠️ d does not undo e for this n: decryption will not recover the message`);
+  }
+  
+  return { n, e, d, steps };
+}
+
+// Key pair values stored in a file: everything RSAPrivateKey holds
+export interface RSAKeyComponents {
+  n: bigint;
+  e: bigint;
+  d: bigint;
+  p: bigint;
+  q: bigint;
+  dP: bigint;
+  dQ: bigint;
+  qInv: bigint;
+  otherPrimes: OtherPrimeInfo[];
+}
+
+// Fill in φ, λ and the comparison values for a key pair whose numbers were not generated here.
+// Nothing is checked; run validateKeyPair to find out whether the values fit together.
+export function keyPairFromComponents(components: RSAKeyComponents, steps: string[]): RSAKeyPair {
+  const { n, e, d, p, q, otherPrimes } = components;
+  const primes = [p, q, ...otherPrimes.map(info => info.prime)];
+  const phi = eulerTotient(...primes);
+  const lambda = carmichaelLambda(...primes);
+  const dPhi = modularInverse(e, phi);
+  const dLambda = modularInverse(e, lambda);
+  // Files do not say which totient d was reduced by, so infer it from the value
+  const privateExponentModulus: PrivateExponentModulus = dLambda !== null && d === dLambda && dPhi !== dLambda ? 'lambda' : 'phi';
+  
+  steps.push(`🔢 φ(n) = ${primes.map((_, index) => `(${primeLabel(index)}-1)`).join(' × ')} = ${phi}, λ(n) = ${lambda}`);
+  steps.push(privateExponentModulus === 'lambda'
+    ? `🔐 d equals e⁻¹ mod λ(n), the PKCS#1 convention`
+    : d === dPhi ? `🔐 d equals e⁻¹ mod φ(n), the textbook convention` : `⚠️ d is neither e⁻¹ mod φ(n) nor e⁻¹ mod λ(n)`);
+  
+  const inverseTable = extendedGcdTable(privateExponentModulus === 'lambda' ? lambda : phi, e);
+  return { ...components, phi, lambda, privateExponentModulus, dPhi, dLambda, inverseTable, steps };
+}
+
+// How the message is turned into the integers that get encrypted:
+// the encoding maps characters to symbols, and blockSize symbols are packed into each integer
+export interface BlockLayout {
+  encoding: MessageEncodingId;
+  blockSize: number;
+  // Symbols in the message, so the filler in the last block can be dropped; unknown for pasted ciphertext
+  symbolCount?: number;
+}
+
+export const PER_CHARACTER_LAYOUT: BlockLayout = { encoding: 'code-points', blockSize: 1 };
+
+// Resolve a block layout for a message under modulus n, or null if the message cannot fit
+export function chooseBlockLayout(
+  message: string,
+  n: bigint,
+  blockSize: number | 'auto' = 1,
+  encodingId: MessageEncodingId = 'code-points'
+): BlockLayout | null {
+  const encoding = MESSAGE_ENCODINGS[encodingId];
+  if (encoding.findInvalidCharacter(message)) return null;
+  
+  const symbols = encoding.encode(message).flatMap(char => char.symbols);
+  const largest = maxBlockSize(n, encoding.radix);
+  const size = blockSize === 'auto' ? Math.max(1, largest) : blockSize;
+  
+  if (!Number.isInteger(size) || size < 1) return null;
+  if (size === 1) {
+    return symbols.every(symbol => symbol < n) ? { encoding: encodingId, blockSize: 1 } : null;
+  }
+  return size <= largest ? { encoding: encodingId, blockSize: size } : null;
+}
+
+// Validate message can be encrypted (every block value must be < n)
+export function validateMessage(
+  message: string,
+  n: bigint,
+  blockSize: number | 'auto' = 1,
+  encodingId: MessageEncodingId = 'code-points'
+): boolean {
+  return chooseBlockLayout(message, n, blockSize, encodingId) !== null;
 }
 
-// Validate message can be encrypted (all characters must be < n)
-export function validateMessage(message: string, n: bigint): boolean {
-  const charCodes = stringToBigIntArray(message);
-  return charCodes.every(code => code < n);
+// Turn decrypted block values back into text, explaining the unpacking in steps
+function decodeBlockValues(values: bigint[], layout: BlockLayout, steps: string[]): string {
+  const encoding = MESSAGE_ENCODINGS[layout.encoding];
+  const blocks = unpackBlocks(values, encoding.radix, layout.blockSize, layout.symbolCount);
+  
+  if (layout.blockSize > 1) {
+    steps.push(`📦 Unpack each block into ${layout.blockSize} base-${encoding.radix} digits:`);
+    blocks.forEach((block, i) => {
+      steps.push(`   Block ${i + 1}: ${block.value} → [${block.symbols.map(encoding.showSymbol).join(', ')}]`);
+    });
+    steps.push(layout.symbolCount === undefined
+      ? `⚠️ The message length is unknown, so any filler in the last block is kept`
+      : `✂️ Keep the message's ${layout.symbolCount} symbols; the rest of the last block was filler`);
+  }
+  
+  const symbols = blocks.flatMap(block => block.symbols);
+  const decoded = encoding.decode(symbols);
+  steps.push(`🔤 Decode ${symbols.length} symbols as ${encoding.label}: "${decoded}"`);
+  return decoded;
 }
 
 // Full RSA encryption process
-export function rsaEncrypt(message: string, e: bigint, n: bigint): {
+export function rsaEncrypt(message: string, e: bigint, n: bigint, layout: BlockLayout = PER_CHARACTER_LAYOUT): {
   ciphertext: bigint[];
   steps: string[];
+  traces: ModularExponentiationTrace[];
+  blocks: MessageBlock[];
+  layout: BlockLayout;
 } {
   const steps: string[] = [];
-  const plainNumbers = stringToBigIntArray(message);
+  const traces: ModularExponentiationTrace[] = [];
+  const encoding = MESSAGE_ENCODINGS[layout.encoding];
+  const characters = encoding.encode(message);
+  const plainNumbers = characters.flatMap(char => char.symbols);
   
+  steps.push(`🔤 Encoding: ${encoding.label} (each symbol is a base-${encoding.radix} digit)`);
   steps.push(`📝 Convert message "${message}" to numbers:`);
-  steps.push(`   ${message.split('').map((char, i) => `'${char}' → ${plainNumbers[i]}`).join(', ')}`);
+  steps.push(`   ${characters.map(char => `'${char.text}' → ${char.symbols.map(encoding.showSymbol).join(' ')}`).join(', ')}`);
+  
+  // Which character each symbol came from, for labelling per-symbol encryption
+  const symbolSources = characters.flatMap(char => char.symbols.map(() => char.text));
   
-  const ciphertext = plainNumbers.map((m, i) => {
-    const c = encryptCharacter(m, e, n);
-    steps.push(`🔒 Encrypt '${message[i]}': ${m}^${e} mod ${n} = ${c}`);
+  const blocks = packBlocks(plainNumbers, encoding.radix, layout.blockSize, encoding.padding);
+  if (layout.blockSize > 1) {
+    const capacity = encoding.radix ** BigInt(layout.blockSize);
+    steps.push(`📦 Pack ${layout.blockSize} symbols per block in base ${encoding.radix} (${encoding.radix}^${layout.blockSize} = ${capacity} ≤ n = ${n}):`);
+    blocks.forEach((block, i) => {
+      steps.push(`   Block ${i + 1}: ${describeBlock(block, encoding.radix)}`);
+    });
+  }
+  
+  const ciphertext = blocks.map((block, i) => {
+    const m = block.value;
+    const trace = traceModularExponentiation(m, e, n);
+    const c = trace.result;
+    traces.push(trace);
+    const label = layout.blockSize > 1 ? `block ${i + 1}` : `'${symbolSources[i]}'`;
+    steps.push(`🔒 Encrypt ${label}: ${m}^${e} mod ${n} = ${c}`);
     return c;
   });
   
-  return { ciphertext, steps };
+  return { ciphertext, steps, traces, blocks, layout: { ...layout, symbolCount: plainNumbers.length } };
 }
 
 // Full RSA decryption process
-export function rsaDecrypt(ciphertext: bigint[], d: bigint, n: bigint): {
+export function rsaDecrypt(ciphertext: bigint[], d: bigint, n: bigint, layout: BlockLayout = PER_CHARACTER_LAYOUT): {
   decrypted: string;
   steps: string[];
+  traces: ModularExponentiationTrace[];
 } {
   const steps: string[] = [];
+  const traces: ModularExponentiationTrace[] = [];
   
-  const decryptedNumbers = ciphertext.map((c, i) => {
-    const m = decryptCharacter(c, d, n);
-    const char = String.fromCharCode(Number(m));
-    steps.push(`🔓 Decrypt ${c}: ${c}^${d} mod ${n} = ${m} → '${char}'`);
+  const decryptedNumbers = ciphertext.map(c => {
+    const trace = traceModularExponentiation(c, d, n);
+    const m = trace.result;
+    traces.push(trace);
+    steps.push(`🔓 Decrypt ${c}: ${c}^${d} mod ${n} = ${m}`);
     return m;
   });
   
-  const decrypted = bigIntArrayToString(decryptedNumbers);
+  const decrypted = decodeBlockValues(decryptedNumbers, layout, steps);
+  steps.push(`📋 Reconstructed message: "${decrypted}"`);
+  
+  return { decrypted, steps, traces };
+}
+
+type CRTKey = Pick<RSAKeyPair, 'p' | 'q' | 'dP' | 'dQ' | 'qInv' | 'otherPrimes'>;
+
+// RFC 8017 §5.1.2 step 2b: Garner's recombination for p and q, then one more step per extra prime
+function crtRecombine(c: bigint, keyPair: CRTKey, steps?: string[]): bigint {
+  const { p, q, dP, dQ, qInv, otherPrimes } = keyPair;
+  const m1 = modularExponentiation(c, dP, p);
+  const m2 = modularExponentiation(c, dQ, q);
+  const h = (((qInv * (m1 - m2)) % p) + p) % p;
+  let m = m2 + h * q;
+  steps?.push(`🔓 Decrypt ${c}: m1 = ${c}^${dP} mod ${p} = ${m1}, m2 = ${c}^${dQ} mod ${q} = ${m2}`);
+  steps?.push(`   Garner: h = ${qInv} × (${m1} - ${m2}) mod ${p} = ${h}, m = ${m2} + ${h} × ${q} = ${m}`);
+  
+  let product = p * q;
+  otherPrimes.forEach(({ prime, exponent, coefficient }, offset) => {
+    const label = primeLabel(offset + 2);
+    const mi = modularExponentiation(c, exponent, prime);
+    const hi = (((coefficient * (mi - m)) % prime) + prime) % prime;
+    const next = m + product * hi;
+    steps?.push(`   ${label}: m${label.slice(1)} = ${c}^${exponent} mod ${prime} = ${mi}, h = ${coefficient} × (${mi} - ${m}) mod ${prime} = ${hi}, m = ${m} + ${product} × ${hi} = ${next}`);
+    m = next;
+    product *= prime;
+  });
+  return m;
+}
+
+// Decrypt a single value with the CRT shortcut: one small exponentiation per prime and Garner's recombination
+export function decryptCharacterCRT(c: bigint, keyPair: CRTKey): bigint {
+  return crtRecombine(c, keyPair);
+}
+
+// Full RSA decryption using the Chinese Remainder Theorem
+export function rsaDecryptCRT(ciphertext: bigint[], keyPair: RSAKeyPair, layout: BlockLayout = PER_CHARACTER_LAYOUT): {
+  decrypted: string;
+  steps: string[];
+} {
+  const { dP, dQ, qInv, otherPrimes } = keyPair;
+  const steps: string[] = [];
+  steps.push(`🧮 Using CRT: dP = ${dP}, dQ = ${dQ}, qInv = ${qInv}` +
+    otherPrimes.map(({ exponent, coefficient }, offset) => {
+      const index = primeLabel(offset + 2).slice(1);
+      return `, d${index} = ${exponent}, t${index} = ${coefficient}`;
+    }).join(''));
+  
+  const decryptedNumbers = ciphertext.map(c => crtRecombine(c, keyPair, steps));
+  
+  const decrypted = decodeBlockValues(decryptedNumbers, layout, steps);
   steps.push(`📋 Reconstructed message: "${decrypted}"`);
   
   return { decrypted, steps };
-}
\ No newline at end of file
+}
+
+export interface DecryptionTiming {
+  standardMs: number;
+  crtMs: number;
+  iterations: number;
+}
+
+// Time full-size versus CRT decryption of the same ciphertext, repeating until the clock resolves
+export function timeDecryption(ciphertext: bigint[], keyPair: RSAKeyPair, minDurationMs: number = 20): DecryptionTiming {
+  const run = (decrypt: (c: bigint) => bigint, iterations: number) => {
+    const start = performance.now();
+    for (let i = 0; i < iterations; i++) ciphertext.forEach(decrypt);
+    return performance.now() - start;
+  };
+  const standard = (c: bigint) => modularExponentiation(c, keyPair.d, keyPair.n);
+  const crt = (c: bigint) => decryptCharacterCRT(c, keyPair);
+  
+  let iterations = 1;
+  while (run(standard, iterations) < minDurationMs && iterations < 1 << 16) iterations *= 2;
+  
+  return {
+    standardMs: run(standard, iterations) / iterations,
+    crtMs: run(crt, iterations) / iterations,
+    iterations,
+  };
+}
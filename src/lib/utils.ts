@@ -4,3 +4,14 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Save bytes or text as a file; everything stays in the browser
+export function downloadFile(fileName: string, data: Blob | Uint8Array | string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking at once makes Firefox and Safari cancel large downloads that have not started reading yet
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
@@ -0,0 +1,104 @@
+/**
+ * RSA Encryption Learning Demo - WebCrypto Interoperability
+ * Run the same key through crypto.subtle and through this code, in both directions
+ */
+
+import { bigIntToBytes, byteLength, bytesToBigInt } from './bytes';
+import { importIntoWebCrypto, toJWK } from './jwk';
+import { OAEP_OVERHEAD, rsaDecryptOAEP, rsaEncryptOAEP } from './rsa-padding';
+import { rsaSign, rsaVerify } from './rsa-signatures';
+import type { RSAKeyPair } from './rsa-utils';
+
+export interface InteropCheck {
+  name: string;
+  passed: boolean;
+}
+
+const describe = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// crypto.subtle must re-export exactly the members we gave it
+async function checkJWKRoundTrip(keyPair: RSAKeyPair, checks: InteropCheck[], steps: string[]) {
+  const { privateKey } = await importIntoWebCrypto(keyPair, { name: 'RSA-OAEP', hash: 'SHA-256' }, { privateKey: ['decrypt'], publicKey: ['encrypt'] });
+  const ours = toJWK(keyPair);
+  const theirs = await crypto.subtle.exportKey('jwk', privateKey);
+  const members = ['n', 'e', 'd', 'p', 'q', 'dp', 'dq', 'qi'] as const;
+  const different = members.filter(name => ours[name] !== theirs[name]);
+  steps.push(`🔑 Imported the JWK into crypto.subtle and exported it again`);
+  steps.push(different.length === 0
+    ? `✅ All of ${members.join(', ')} came back unchanged`
+    : `❌ crypto.subtle changed ${different.join(', ')}`);
+  checks.push({ name: 'JWK round trip through crypto.subtle', passed: different.length === 0 });
+}
+
+// RSA-OAEP with SHA-256 and an empty label, the parameters rsaEncryptOAEP uses
+async function checkOAEP(message: string, keyPair: RSAKeyPair, checks: InteropCheck[], steps: string[]) {
+  const data = new TextEncoder().encode(message);
+  const k = byteLength(keyPair.n);
+  if (data.length > k - OAEP_OVERHEAD) {
+    steps.push(`⏭️ Skipped RSA-OAEP: a ${data.length}-byte message needs n of at least ${data.length + OAEP_OVERHEAD} bytes, this n has ${k}`);
+    return;
+  }
+  const algorithm = { name: 'RSA-OAEP', hash: 'SHA-256' };
+  const { privateKey, publicKey } = await importIntoWebCrypto(keyPair, algorithm, { privateKey: ['decrypt'], publicKey: ['encrypt'] });
+
+  const webCryptoCiphertext = bytesToBigInt(new Uint8Array(await crypto.subtle.encrypt(algorithm, publicKey, data)));
+  steps.push(`🌐 crypto.subtle RSA-OAEP ciphertext: ${webCryptoCiphertext}`);
+  let decryptedHere = false;
+  try {
+    const { decrypted } = await rsaDecryptOAEP([webCryptoCiphertext], keyPair.d, keyPair.n);
+    decryptedHere = decrypted === message;
+    steps.push(decryptedHere ? `✅ rsaDecryptOAEP recovers "${decrypted}"` : `❌ rsaDecryptOAEP returns "${decrypted}"`);
+  } catch (error) {
+    steps.push(`❌ rsaDecryptOAEP fails: ${describe(error)}`);
+  }
+  checks.push({ name: 'crypto.subtle encrypts, rsaDecryptOAEP decrypts', passed: decryptedHere });
+
+  const { ciphertext } = await rsaEncryptOAEP(message, keyPair.e, keyPair.n);
+  steps.push(`🔒 rsaEncryptOAEP ciphertext: ${ciphertext[0]}`);
+  let decryptedThere = false;
+  try {
+    const plaintext = await crypto.subtle.decrypt(algorithm, privateKey, bigIntToBytes(ciphertext[0], k));
+    const decrypted = new TextDecoder().decode(plaintext);
+    decryptedThere = decrypted === message;
+    steps.push(decryptedThere ? `✅ crypto.subtle recovers "${decrypted}"` : `❌ crypto.subtle returns "${decrypted}"`);
+  } catch (error) {
+    steps.push(`❌ crypto.subtle refuses to decrypt: ${describe(error)}`);
+  }
+  checks.push({ name: 'rsaEncryptOAEP encrypts, crypto.subtle decrypts', passed: decryptedThere });
+}
+
+// RSASSA-PKCS1-v1_5 with SHA-256, the default mode of rsaSign
+async function checkPKCS1Signatures(message: string, keyPair: RSAKeyPair, checks: InteropCheck[], steps: string[]) {
+  const algorithm = { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' };
+  const { privateKey, publicKey } = await importIntoWebCrypto(keyPair, algorithm, { privateKey: ['sign'], publicKey: ['verify'] });
+  const data = new TextEncoder().encode(message);
+
+  const webCryptoSignature = bytesToBigInt(new Uint8Array(await crypto.subtle.sign(algorithm, privateKey, data)));
+  steps.push(`🌐 crypto.subtle RSASSA-PKCS1-v1_5 signature: ${webCryptoSignature}`);
+  const { valid } = await rsaVerify(message, webCryptoSignature, keyPair.e, keyPair.n, 'pkcs1-v1_5');
+  steps.push(valid ? `✅ rsaVerify accepts the crypto.subtle signature` : `❌ rsaVerify rejects the crypto.subtle signature`);
+  checks.push({ name: 'crypto.subtle signs, rsaVerify verifies', passed: valid });
+
+  const { signature } = await rsaSign(message, keyPair.d, keyPair.n, 'pkcs1-v1_5');
+  steps.push(`✍️ rsaSign signature: ${signature}`);
+  // PKCS#1 v1.5 signatures are deterministic, so both sides must produce the same number
+  steps.push(signature === webCryptoSignature
+    ? `✅ Identical to the crypto.subtle signature`
+    : `❌ Differs from the crypto.subtle signature`);
+  const accepted = await crypto.subtle.verify(algorithm, publicKey, bigIntToBytes(signature, byteLength(keyPair.n)), data);
+  steps.push(accepted ? `✅ crypto.subtle accepts the rsaSign signature` : `❌ crypto.subtle rejects the rsaSign signature`);
+  checks.push({ name: 'rsaSign signs, crypto.subtle verifies', passed: accepted });
+}
+
+// Throws JWKError when crypto.subtle will not take the key; everything after that is reported as checks
+export async function crossCheckWebCrypto(message: string, keyPair: RSAKeyPair): Promise<{
+  checks: InteropCheck[];
+  steps: string[];
+}> {
+  const checks: InteropCheck[] = [];
+  const steps: string[] = [];
+  await checkJWKRoundTrip(keyPair, checks, steps);
+  await checkOAEP(message, keyPair, checks, steps);
+  await checkPKCS1Signatures(message, keyPair, checks, steps);
+  return { checks, steps };
+}